@@ -1 +1,2 @@
 export * from './lib/permissions-webpack-plugin.js';
+export { schema } from './lib/schema.js';
@@ -0,0 +1,96 @@
+import type { Chunk, Compilation } from 'webpack';
+import { createChunkPattern } from './chunks.js';
+
+describe('createChunkPattern', () => {
+  const createChunk = (
+    files: string[],
+    auxiliaryFiles: string[] = [],
+    asyncChunks: Chunk[] = []
+  ) =>
+    ({
+      files: new Set(files),
+      auxiliaryFiles: new Set(auxiliaryFiles),
+      getAllAsyncChunks: () => new Set(asyncChunks),
+    }) as unknown as Chunk;
+
+  let compilation: Compilation;
+
+  beforeEach(() => {
+    const lazyChunk = createChunk(['lazy.a1b2.js']);
+    const runtimeChunk = createChunk(['runtime.c3d4.js']);
+    const cliChunk = createChunk(
+      ['cli.e5f6.js'],
+      ['cli.e5f6.js.map'],
+      [lazyChunk]
+    );
+    const workerChunk = createChunk(['worker.0a1b.js']);
+
+    compilation = {
+      entrypoints: new Map([
+        ['cli', { chunks: [runtimeChunk, cliChunk] }],
+        ['worker', { chunks: [workerChunk] }],
+      ]),
+      namedChunks: new Map([['vendors', createChunk(['vendors.9f8e.js'])]]),
+    } as unknown as Compilation;
+  });
+
+  it('should match files of entrypoint chunks', () => {
+    const matches = createChunkPattern({ entries: 'cli' });
+
+    expect(matches('cli.e5f6.js', {}, compilation)).toBe(true);
+    expect(matches('runtime.c3d4.js', {}, compilation)).toBe(true);
+    expect(matches('worker.0a1b.js', {}, compilation)).toBe(false);
+    expect(matches('cli.e5f6.js.map', {}, compilation)).toBe(false);
+    expect(matches('lazy.a1b2.js', {}, compilation)).toBe(false);
+  });
+
+  it('should match files of named chunks', () => {
+    const matches = createChunkPattern({ chunks: ['vendors'] });
+
+    expect(matches('vendors.9f8e.js', {}, compilation)).toBe(true);
+    expect(matches('cli.e5f6.js', {}, compilation)).toBe(false);
+  });
+
+  it('should match auxiliary files when enabled', () => {
+    const matches = createChunkPattern({
+      entries: ['cli'],
+      includeAuxiliaryFiles: true,
+    });
+
+    expect(matches('cli.e5f6.js.map', {}, compilation)).toBe(true);
+  });
+
+  it('should match async chunk files when enabled', () => {
+    const matches = createChunkPattern({
+      entries: ['cli'],
+      includeAsyncChunks: true,
+    });
+
+    expect(matches('lazy.a1b2.js', {}, compilation)).toBe(true);
+  });
+
+  it('should ignore unknown entrypoints and chunks', () => {
+    const matches = createChunkPattern({
+      entries: ['missing'],
+      chunks: ['missing'],
+    });
+
+    expect(matches('cli.e5f6.js', {}, compilation)).toBe(false);
+  });
+
+  it('should match nothing without a compilation', () => {
+    const matches = createChunkPattern({ entries: 'cli' });
+
+    expect(matches('cli.e5f6.js', {}, undefined)).toBe(false);
+  });
+
+  it('should resolve files once per compilation', () => {
+    const get = vi.spyOn(compilation.entrypoints, 'get');
+    const matches = createChunkPattern({ entries: ['cli'] });
+
+    matches('cli.e5f6.js', {}, compilation);
+    matches('runtime.c3d4.js', {}, compilation);
+
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,85 @@
+import type { Chunk, Compilation } from 'webpack';
+import type { PatternFunction } from './matcher.js';
+
+export interface ChunkSelectorOptions {
+  /**
+   * Names of entrypoints whose chunks' files should match.
+   */
+  entries?: string | string[];
+  /**
+   * Names of chunks whose files should match.
+   */
+  chunks?: string | string[];
+  /**
+   * Also match auxiliary files of the selected chunks, e.g. source maps.
+   */
+  includeAuxiliaryFiles?: boolean;
+  /**
+   * Also match files of async chunks loaded by the selected chunks.
+   */
+  includeAsyncChunks?: boolean;
+}
+
+const toArray = (value: string | string[] = []) =>
+  Array.isArray(value) ? value : [value];
+
+const collectFiles = (
+  compilation: Compilation,
+  options: ChunkSelectorOptions
+): Set<string> => {
+  const selected = new Set<Chunk>();
+  for (const name of toArray(options.entries)) {
+    for (const chunk of compilation.entrypoints.get(name)?.chunks ?? []) {
+      selected.add(chunk);
+    }
+  }
+  for (const name of toArray(options.chunks)) {
+    const chunk = compilation.namedChunks.get(name);
+    if (chunk) {
+      selected.add(chunk);
+    }
+  }
+  if (options.includeAsyncChunks) {
+    for (const chunk of [...selected]) {
+      for (const asyncChunk of chunk.getAllAsyncChunks()) {
+        selected.add(asyncChunk);
+      }
+    }
+  }
+
+  const files = new Set<string>();
+  for (const chunk of selected) {
+    for (const file of chunk.files) {
+      files.add(file);
+    }
+    if (options.includeAuxiliaryFiles) {
+      for (const file of chunk.auxiliaryFiles) {
+        files.add(file);
+      }
+    }
+  }
+  return files;
+};
+
+/**
+ * Creates a pattern that matches the files produced by the selected
+ * entrypoints and named chunks. Files are resolved once per compilation,
+ * and nothing matches without one.
+ */
+export const createChunkPattern = (
+  options: ChunkSelectorOptions
+): PatternFunction => {
+  const cache = new WeakMap<Compilation, Set<string>>();
+
+  return (assetName, _assetInfo, compilation) => {
+    if (!compilation) {
+      return false;
+    }
+    let files = cache.get(compilation);
+    if (!files) {
+      files = collectFiles(compilation, options);
+      cache.set(compilation, files);
+    }
+    return files.has(assetName);
+  };
+};
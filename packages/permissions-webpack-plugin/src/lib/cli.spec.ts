@@ -0,0 +1,182 @@
+import { chmod, mkdir, mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { optionsFromManifest, run } from './cli.js';
+
+describe('cli', () => {
+  let root: string;
+  let outputPath: string;
+  let output: {
+    log: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+  };
+
+  const modeOf = async (name: string) =>
+    (await stat(join(outputPath, name))).mode & 0o7777;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'permissions-cli-'));
+    outputPath = join(root, 'dist');
+    await mkdir(join(outputPath, 'bin'), { recursive: true });
+    await writeFile(join(outputPath, 'bin/cli.js'), '#!/usr/bin/env node\n');
+    await writeFile(join(outputPath, 'main.js'), '');
+    await chmod(join(outputPath, 'bin/cli.js'), 0o600);
+    await chmod(join(outputPath, 'main.js'), 0o600);
+    output = { log: vi.fn(), error: vi.fn() };
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('optionsFromManifest', () => {
+    it('should create one rule per mode and report missing entries', () => {
+      const { options, missing } = optionsFromManifest(
+        {
+          'bin/cli.js': '0o755',
+          'bin/other.js': '0o755',
+          'main.js': '0o644',
+          bin: '0o750',
+          'gone.js': '0o644',
+        },
+        ['bin/cli.js', 'bin/other.js', 'main.js']
+      );
+
+      expect(options.rules.map(({ permissions }) => permissions)).toEqual([
+        '0o755',
+        '0o644',
+      ]);
+      expect(
+        options.directories?.map(({ permissions }) => permissions)
+      ).toEqual(['0o750']);
+      expect(missing).toEqual(['gone.js']);
+    });
+  });
+
+  it('should apply rules from a config file', async () => {
+    const config = join(root, 'permissions.config.mjs');
+    await writeFile(
+      config,
+      `export default { rules: [{ permissions: 0o755, patterns: 'bin/**' }], directories: [{ permissions: 0o750, patterns: 'bin' }] };`
+    );
+
+    await expect(
+      run(['apply', '--config', config, outputPath], output)
+    ).resolves.toBe(0);
+
+    expect(await modeOf('bin/cli.js')).toBe(0o755);
+    expect(await modeOf('bin')).toBe(0o750);
+    expect(await modeOf('main.js')).toBe(0o600);
+    expect(output.log).toHaveBeenCalledWith(
+      'Set permissions on 1 file and 1 directory (2 rules)'
+    );
+  });
+
+  it('should apply a manifest', async () => {
+    const manifest = join(root, 'permissions.json');
+    await writeFile(
+      manifest,
+      JSON.stringify({ 'bin/cli.js': '0o700', 'main.js': '0o644' })
+    );
+
+    await expect(
+      run(['apply', '-m', manifest, outputPath], output)
+    ).resolves.toBe(0);
+
+    expect(await modeOf('bin/cli.js')).toBe(0o700);
+    expect(await modeOf('main.js')).toBe(0o644);
+  });
+
+  it('should make shebang scripts executable', async () => {
+    const config = join(root, 'permissions.json');
+    await writeFile(config, JSON.stringify({ rules: [], shebang: '0750' }));
+
+    await run(['apply', '-c', config, outputPath], output);
+
+    expect(await modeOf('bin/cli.js')).toBe(0o750);
+    expect(await modeOf('main.js')).toBe(0o600);
+  });
+
+  it('should only print the modes in dry run mode', async () => {
+    const manifest = join(root, 'permissions.json');
+    await writeFile(manifest, JSON.stringify({ 'main.js': '0o644' }));
+
+    await run(['apply', '-m', manifest, '--dry-run', outputPath], output);
+
+    expect(await modeOf('main.js')).toBe(0o600);
+    expect(output.log).toHaveBeenCalledWith(
+      '[dry run] main.js: 0o644 (rule 0)'
+    );
+  });
+
+  it('should verify the modes', async () => {
+    const manifest = join(root, 'permissions.json');
+    await writeFile(manifest, JSON.stringify({ 'main.js': '0o644' }));
+
+    await expect(
+      run(['apply', '-m', manifest, '--verify', outputPath], output)
+    ).resolves.toBe(0);
+    expect(output.error).not.toHaveBeenCalled();
+  });
+
+  it('should fail on failures in strict mode', async () => {
+    const config = join(root, 'permissions.json');
+    await writeFile(
+      config,
+      JSON.stringify({
+        rules: [
+          { permissions: 0o644, patterns: '*.js', owner: 'no-such-user' },
+        ],
+      })
+    );
+
+    await expect(
+      run(['apply', '-c', config, outputPath], output)
+    ).resolves.toBe(0);
+    await expect(
+      run(['apply', '-c', config, '--strict', outputPath], output)
+    ).resolves.toBe(1);
+    expect(output.error).toHaveBeenLastCalledWith(
+      expect.stringMatching(/^Error: SetFilePermissionsPlugin: .*no-such-user/)
+    );
+  });
+
+  it('should warn about manifest entries that do not exist', async () => {
+    const manifest = join(root, 'permissions.json');
+    await writeFile(manifest, JSON.stringify({ 'gone.js': '0o644' }));
+
+    await expect(
+      run(['apply', '-m', manifest, outputPath], output)
+    ).resolves.toBe(0);
+    expect(output.error).toHaveBeenCalledWith(
+      'Warning: gone.js from the manifest was not found.'
+    );
+  });
+
+  it('should report invalid options', async () => {
+    const config = join(root, 'permissions.json');
+    await writeFile(config, JSON.stringify({ rules: [{ pattern: 'a' }] }));
+
+    await expect(
+      run(['apply', '-c', config, outputPath], output)
+    ).resolves.toBe(1);
+    expect(output.error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "options.rules[0] has an unknown property 'pattern'"
+      )
+    );
+  });
+
+  it.each([
+    ['no command', []],
+    ['an unknown command', ['restore', '-m', 'permissions.json']],
+    ['neither a config nor a manifest', ['apply']],
+    ['both a config and a manifest', ['apply', '-c', 'a.json', '-m', 'b.json']],
+    ['an unknown option', ['apply', '--force']],
+  ])('should print the usage for %s', async (_, args) => {
+    await expect(run(args, output)).resolves.toBe(1);
+    expect(output.error).toHaveBeenCalledWith(
+      expect.stringContaining('Usage: permissions-webpack-plugin apply')
+    );
+  });
+});
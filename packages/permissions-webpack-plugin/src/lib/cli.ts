@@ -0,0 +1,208 @@
+import * as fs from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import type { OutputFileSystem } from 'webpack';
+import {
+  SetFilePermissionsPlugin,
+  type SetFilePermissionsPluginOptions,
+} from './permissions-webpack-plugin.js';
+import { parentDirectories, scanOutputPath } from './scan.js';
+
+export const USAGE = `Usage: permissions-webpack-plugin apply [options] [directory]
+
+Applies plugin rules or a permissions manifest to the files in a directory
+(defaults to the current one), without running webpack.
+
+Options:
+  -c, --config <file>    Module or JSON file exporting the plugin options
+  -m, --manifest <file>  Manifest written by the "manifest" option
+      --compiler <name>  Compiler name for rules limited with "compilers"
+      --dry-run          Print the modes instead of changing them
+      --verify           Read the mode of each file back after changing it
+      --strict           Report failures as errors
+  -v, --verbose          Print every changed file
+  -h, --help             Show this message
+`;
+
+export interface CliOutput {
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
+
+export type Manifest = Record<string, string>;
+
+/**
+ * Loads plugin options from a JSON file or from the default export of a
+ * JavaScript module.
+ */
+export const loadConfig = async (
+  file: string
+): Promise<SetFilePermissionsPluginOptions> => {
+  const path = resolve(file);
+  if (path.endsWith('.json')) {
+    return JSON.parse(await readFile(path, 'utf8'));
+  }
+  const module = await import(pathToFileURL(path).href);
+  return module.default ?? module;
+};
+
+/**
+ * Turns a manifest into plugin options with one rule per mode. Entries that
+ * are neither one of the given files nor one of their parent directories
+ * are returned as `missing`.
+ */
+export const optionsFromManifest = (
+  manifest: Manifest,
+  files: string[]
+): { options: SetFilePermissionsPluginOptions; missing: string[] } => {
+  const existingFiles = new Set(files);
+  const existingDirectories = new Set(files.flatMap(parentDirectories));
+  const fileModes = new Map<string, Set<string>>();
+  const directoryModes = new Map<string, Set<string>>();
+  const missing: string[] = [];
+  for (const [name, mode] of Object.entries(manifest)) {
+    const modes = existingFiles.has(name)
+      ? fileModes
+      : existingDirectories.has(name)
+        ? directoryModes
+        : undefined;
+    if (!modes) {
+      missing.push(name);
+      continue;
+    }
+    modes.set(mode, (modes.get(mode) ?? new Set()).add(name));
+  }
+  const toRules = (modes: Map<string, Set<string>>) =>
+    [...modes].map(([permissions, names]) => ({
+      permissions,
+      patterns: (name: string) => names.has(name),
+    }));
+  return {
+    options: {
+      rules: toRules(fileModes),
+      directories: toRules(directoryModes),
+    },
+    missing,
+  };
+};
+
+/**
+ * Applies the plugin rules to the given files of `outputPath`, and resolves
+ * to the reported warnings and errors.
+ */
+export const applyPermissions = async (
+  outputPath: string,
+  files: string[],
+  options: SetFilePermissionsPluginOptions,
+  {
+    name,
+    output,
+    verbose = false,
+  }: { name?: string; output: CliOutput; verbose?: boolean }
+): Promise<{ warnings: Error[]; errors: Error[] }> => {
+  const warnings: Error[] = [];
+  const errors: Error[] = [];
+  await new SetFilePermissionsPlugin(options).applyToFiles({
+    outputPath,
+    outputFileSystem: fs as unknown as OutputFileSystem,
+    files,
+    compilerName: name,
+    warnings,
+    errors,
+    logger: {
+      debug: (message) => verbose && output.log(message),
+      info: (message) => output.log(message),
+    },
+  });
+  return { warnings, errors };
+};
+
+/**
+ * Runs the command line interface and resolves to its exit code.
+ */
+export const run = async (
+  args: string[],
+  output: CliOutput = { log: console.log, error: console.error }
+): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        manifest: { type: 'string', short: 'm' },
+        compiler: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        verify: { type: 'boolean' },
+        strict: { type: 'boolean' },
+        verbose: { type: 'boolean', short: 'v' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    output.error(`${(err as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    output.log(USAGE);
+    return 0;
+  }
+  const [command, directory = '.', ...rest] = positionals;
+  if (command !== 'apply' || rest.length > 0) {
+    output.error(USAGE);
+    return 1;
+  }
+  if (Boolean(values.config) === Boolean(values.manifest)) {
+    output.error(`Either --config or --manifest is required.\n\n${USAGE}`);
+    return 1;
+  }
+
+  try {
+    const outputPath = resolve(directory);
+    const files = await scanOutputPath(
+      fs as unknown as OutputFileSystem,
+      outputPath,
+      { dot: true }
+    );
+    let options: SetFilePermissionsPluginOptions;
+    if (values.manifest) {
+      const manifest = await readFile(resolve(values.manifest), 'utf8');
+      const fromManifest = optionsFromManifest(JSON.parse(manifest), files);
+      fromManifest.missing.forEach((name) =>
+        output.error(`Warning: ${name} from the manifest was not found.`)
+      );
+      options = fromManifest.options;
+    } else {
+      // The archive and the manifest belong to the webpack build.
+      const { archive, manifest, ...config } = await loadConfig(
+        values.config as string
+      );
+      if (archive || manifest) {
+        output.log('Ignoring the "archive" and "manifest" options.');
+      }
+      options = config;
+    }
+
+    const { warnings, errors } = await applyPermissions(
+      outputPath,
+      files,
+      {
+        ...options,
+        dryRun: values['dry-run'] ? (options.dryRun ?? true) : options.dryRun,
+        verify: values.verify ?? options.verify,
+        strict: values.strict ?? options.strict,
+      },
+      { name: values.compiler, output, verbose: values.verbose }
+    );
+    warnings.forEach(({ message }) => output.error(`Warning: ${message}`));
+    errors.forEach(({ message }) => output.error(`Error: ${message}`));
+    return errors.length > 0 ? 1 : 0;
+  } catch (err) {
+    output.error(`Error: ${(err as Error).message}`);
+    return 1;
+  }
+};
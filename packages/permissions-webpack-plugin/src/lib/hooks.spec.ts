@@ -0,0 +1,37 @@
+import type { Compilation } from 'webpack';
+import { getCompilationHooks } from './hooks.js';
+
+describe('getCompilationHooks', () => {
+  it('should return the same hooks for a compilation', () => {
+    const compilation = {} as Compilation;
+
+    expect(getCompilationHooks(compilation)).toBe(
+      getCompilationHooks(compilation)
+    );
+  });
+
+  it('should create separate hooks per compilation', () => {
+    expect(getCompilationHooks({} as Compilation)).not.toBe(
+      getCompilationHooks({} as Compilation)
+    );
+  });
+
+  it('should pass data through the resolvePermissions waterfall', async () => {
+    const { resolvePermissions } = getCompilationHooks({} as Compilation);
+    resolvePermissions.tap('Test', (data) => ({ ...data, mode: 0o700 }));
+    resolvePermissions.tapPromise('Test', async (data) => ({
+      ...data,
+      mode: data.mode === false ? false : data.mode | 0o055,
+    }));
+
+    await expect(
+      resolvePermissions.promise({
+        name: 'cli.js',
+        path: '/output/cli.js',
+        type: 'file',
+        rule: 0,
+        mode: 0o644,
+      })
+    ).resolves.toMatchObject({ mode: 0o755 });
+  });
+});
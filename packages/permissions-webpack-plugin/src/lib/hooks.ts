@@ -0,0 +1,72 @@
+import { AsyncSeriesHook, AsyncSeriesWaterfallHook } from 'tapable';
+import type { Compilation } from 'webpack';
+
+export interface ResolvePermissionsData {
+  /**
+   * Path relative to `output.path`, using forward slashes.
+   */
+  name: string;
+  /**
+   * Absolute path on the output file system.
+   */
+  path: string;
+  type: 'file' | 'directory';
+  /**
+   * Index of the matching rule, `'assetInfo'` or `'source'` for a mode
+   * declared in the asset info or the source, `'shebang'` or `'default'` for
+   * the fallbacks, or `null` if no rule matched.
+   */
+  rule: number | 'assetInfo' | 'source' | 'shebang' | 'default' | null;
+  /**
+   * Mode to apply, or `false` to leave the permissions unchanged.
+   */
+  mode: number | false;
+}
+
+export interface ChmodData {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  mode: number;
+}
+
+export interface SetFilePermissionsPluginHooks {
+  /**
+   * Called for every file and directory before its mode is changed. Taps can
+   * return a different `mode`, or `false` to skip the change.
+   */
+  resolvePermissions: AsyncSeriesWaterfallHook<[ResolvePermissionsData]>;
+  beforeChmod: AsyncSeriesHook<[ChmodData]>;
+  /**
+   * Called after a mode was changed successfully.
+   */
+  afterChmod: AsyncSeriesHook<[ChmodData]>;
+}
+
+/**
+ * Creates a set of hooks that nothing has tapped yet.
+ */
+export const createHooks = (): SetFilePermissionsPluginHooks => ({
+  resolvePermissions: new AsyncSeriesWaterfallHook(['data']),
+  beforeChmod: new AsyncSeriesHook(['data']),
+  afterChmod: new AsyncSeriesHook(['data']),
+});
+
+const compilationHooks = new WeakMap<
+  Compilation,
+  SetFilePermissionsPluginHooks
+>();
+
+/**
+ * Returns the hooks of the given compilation, creating them on first use.
+ */
+export const getCompilationHooks = (
+  compilation: Compilation
+): SetFilePermissionsPluginHooks => {
+  let hooks = compilationHooks.get(compilation);
+  if (!hooks) {
+    hooks = createHooks();
+    compilationHooks.set(compilation, hooks);
+  }
+  return hooks;
+};
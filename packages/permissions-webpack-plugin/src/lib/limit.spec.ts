@@ -0,0 +1,59 @@
+import { createLimit } from './limit.js';
+
+const defer = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((res) => (resolve = res));
+  return { promise, resolve };
+};
+
+describe('createLimit', () => {
+  it('should run at most the given number of tasks at a time', async () => {
+    const limit = createLimit(2);
+    const tasks = [defer(), defer(), defer()];
+    const started: number[] = [];
+
+    const results = Promise.all(
+      tasks.map(({ promise }, index) =>
+        limit(() => {
+          started.push(index);
+          return promise.then(() => index);
+        })
+      )
+    );
+    await Promise.resolve();
+
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].resolve();
+    await tasks[1].promise;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].resolve();
+    tasks[2].resolve();
+    await expect(results).resolves.toEqual([0, 1, 2]);
+  });
+
+  it('should start the next task after a rejection', async () => {
+    const limit = createLimit(1);
+
+    const failed = limit(() => Promise.reject(new Error('EACCES')));
+    const next = limit(() => Promise.resolve('ok'));
+
+    await expect(failed).rejects.toThrow('EACCES');
+    await expect(next).resolves.toBe('ok');
+  });
+
+  it('should reject and start the next task when a task throws', async () => {
+    const limit = createLimit(1);
+
+    const failed = limit(() => {
+      throw new Error('EACCES');
+    });
+    const next = limit(() => Promise.resolve('ok'));
+
+    await expect(failed).rejects.toThrow('EACCES');
+    await expect(next).resolves.toBe('ok');
+  });
+});
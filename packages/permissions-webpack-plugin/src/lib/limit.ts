@@ -0,0 +1,31 @@
+export type Limit = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Returns a function that runs tasks with at most `concurrency` of them in
+ * flight at a time. Queued tasks start in the order they were added.
+ */
+export const createLimit = (concurrency: number): Limit => {
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const next = () => {
+    if (active < concurrency) {
+      queue.shift()?.();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        active++;
+        // Turns synchronous throws into rejections, which free the slot too.
+        new Promise<T>((run) => run(task()))
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+};
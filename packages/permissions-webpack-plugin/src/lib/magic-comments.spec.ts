@@ -0,0 +1,31 @@
+import { readMagicComment } from './magic-comments.js';
+
+describe('readMagicComment', () => {
+  it.each([
+    [' webpackPermissions: "0755" ', '0755'],
+    [" webpackPermissions: 'rwxr-xr-x' ", 'rwxr-xr-x'],
+    ['webpackPermissions:0o750', '0o750'],
+    ['* webpackPermissions: "u+x" ', 'u+x'],
+  ])('should read %j', (value, expected) => {
+    expect(readMagicComment([{ value }])).toBe(expected);
+  });
+
+  it('should return the first magic comment', () => {
+    expect(
+      readMagicComment([
+        { value: ' eslint-disable ' },
+        { value: ' webpackPermissions: "0700" ' },
+        { value: ' webpackPermissions: "0755" ' },
+      ])
+    ).toBe('0700');
+  });
+
+  it('should ignore other comments', () => {
+    expect(
+      readMagicComment([
+        { value: ' webpackChunkName: "cli" ' },
+        { value: ' sets webpackPermissions: "0755" for the CLI ' },
+      ])
+    ).toBeUndefined();
+  });
+});
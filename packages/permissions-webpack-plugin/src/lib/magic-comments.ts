@@ -0,0 +1,35 @@
+const MAGIC_COMMENT =
+  /^\s*\*?\s*webpackPermissions\s*:\s*(?:"([^"]*)"|'([^']*)'|([^\s,;]+))[\s,;]*$/;
+
+/**
+ * Permissions a module declares in its source, stored in its `buildInfo` so
+ * they survive persistent caching.
+ */
+export interface SourcePermissions {
+  /**
+   * Value of the `webpackPermissions` magic comment, as written.
+   */
+  permissions?: string;
+  /**
+   * Whether the source starts with a `#!` banner.
+   */
+  shebang?: boolean;
+}
+
+export const BUILD_INFO_KEY = 'setFilePermissions';
+
+/**
+ * Returns the value of the first `webpackPermissions` magic comment, e.g.
+ * `'0755'` for `/* webpackPermissions: "0755" *\/`.
+ */
+export const readMagicComment = (
+  comments: readonly { value: string }[]
+): string | undefined => {
+  for (const { value } of comments) {
+    const match = MAGIC_COMMENT.exec(value);
+    if (match) {
+      return match[1] ?? match[2] ?? match[3];
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,123 @@
+import type { Compilation } from 'webpack';
+import { createMatcher } from './matcher.js';
+
+describe('createMatcher', () => {
+  const compilation = {} as Compilation;
+
+  it('should match exact string patterns', () => {
+    const matches = createMatcher(['script.js']);
+
+    expect(matches('script.js', {}, compilation)).toBe(true);
+    expect(matches('other.js', {}, compilation)).toBe(false);
+  });
+
+  it('should match RegExp patterns', () => {
+    const matches = createMatcher([/\.sh$/]);
+
+    expect(matches('build.sh', {}, compilation)).toBe(true);
+    expect(matches('build.js', {}, compilation)).toBe(false);
+  });
+
+  it('should match RegExp patterns with the global flag repeatedly', () => {
+    const matches = createMatcher([/\.sh$/g]);
+
+    expect(matches('a.sh', {}, compilation)).toBe(true);
+    expect(matches('b.sh', {}, compilation)).toBe(true);
+  });
+
+  it('should match glob patterns', () => {
+    const matches = createMatcher(['bin/**', '**/*.sh']);
+
+    expect(matches('bin/cli.js', {}, compilation)).toBe(true);
+    expect(matches('bin/nested/tool', {}, compilation)).toBe(true);
+    expect(matches('scripts/deploy.sh', {}, compilation)).toBe(true);
+    expect(matches('deploy.sh', {}, compilation)).toBe(true);
+    expect(matches('lib/index.js', {}, compilation)).toBe(false);
+  });
+
+  it('should not match across directories with a single star', () => {
+    const matches = createMatcher(['*.js']);
+
+    expect(matches('main.js', {}, compilation)).toBe(true);
+    expect(matches('bin/cli.js', {}, compilation)).toBe(false);
+  });
+
+  it('should exclude assets matched by negated patterns', () => {
+    const matches = createMatcher(['bin/**', '!bin/internal/**']);
+
+    expect(matches('bin/cli.js', {}, compilation)).toBe(true);
+    expect(matches('bin/internal/helper.js', {}, compilation)).toBe(false);
+  });
+
+  it('should not match anything with only negated patterns', () => {
+    const matches = createMatcher(['!bin/**']);
+
+    expect(matches('main.js', {}, compilation)).toBe(false);
+  });
+
+  it('should skip dotfiles by default', () => {
+    const matches = createMatcher(['**/*.sh']);
+
+    expect(matches('.hooks/pre-commit.sh', {}, compilation)).toBe(false);
+    expect(matches('.env.sh', {}, compilation)).toBe(false);
+  });
+
+  it('should match dotfiles when dot is enabled', () => {
+    const matches = createMatcher(['**/*.sh'], { dot: true });
+
+    expect(matches('.hooks/pre-commit.sh', {}, compilation)).toBe(true);
+    expect(matches('.env.sh', {}, compilation)).toBe(true);
+  });
+
+  it('should compare strings verbatim when literal is enabled', () => {
+    const matches = createMatcher(['bin/[id].js', '!important'], {
+      literal: true,
+    });
+
+    expect(matches('bin/[id].js', {}, compilation)).toBe(true);
+    expect(matches('bin/i.js', {}, compilation)).toBe(false);
+    expect(matches('!important', {}, compilation)).toBe(true);
+  });
+
+  it('should not match anything without patterns', () => {
+    const matches = createMatcher([]);
+
+    expect(matches('main.js', {}, compilation)).toBe(false);
+  });
+
+  it('should call function patterns with asset metadata', () => {
+    const predicate = vi.fn(
+      (assetName: string, assetInfo: { javascriptModule?: boolean }) =>
+        assetInfo.javascriptModule === true
+    );
+    const matches = createMatcher([predicate]);
+
+    expect(matches('cli.mjs', { javascriptModule: true }, compilation)).toBe(
+      true
+    );
+    expect(matches('cli.js', {}, compilation)).toBe(false);
+    expect(predicate).toHaveBeenCalledWith(
+      'cli.mjs',
+      { javascriptModule: true },
+      compilation
+    );
+  });
+
+  it('should combine function patterns with negated globs', () => {
+    const matches = createMatcher([() => true, '!**/*.map']);
+
+    expect(matches('main.js', {}, compilation)).toBe(true);
+    expect(matches('main.js.map', {}, compilation)).toBe(false);
+  });
+
+  it('should not match excluded names', () => {
+    const matches = createMatcher(['**/*.js'], {}, [
+      'vendor/**',
+      /\.test\.js$/,
+    ]);
+
+    expect(matches('bin/cli.js', {}, compilation)).toBe(true);
+    expect(matches('vendor/lib.js', {}, compilation)).toBe(false);
+    expect(matches('cli.test.js', {}, compilation)).toBe(false);
+  });
+});
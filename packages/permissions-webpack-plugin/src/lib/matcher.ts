@@ -0,0 +1,75 @@
+import picomatch from 'picomatch';
+import type { AssetInfo, Compilation } from 'webpack';
+
+/**
+ * Receives `undefined` as the compilation when the rules are applied to files
+ * outside of a webpack build, e.g. by the command line tool.
+ */
+export type PatternFunction = (
+  assetName: string,
+  assetInfo: AssetInfo,
+  compilation: Compilation | undefined
+) => boolean;
+
+export type Pattern = string | RegExp | PatternFunction;
+
+export interface MatcherOptions {
+  /**
+   * Compare string patterns with the asset name verbatim instead of treating
+   * them as glob expressions.
+   */
+  literal?: boolean;
+  /**
+   * Allow glob patterns to match dotfiles and files inside dot directories.
+   */
+  dot?: boolean;
+}
+
+export type Matcher = PatternFunction;
+
+const compilePattern = (pattern: Pattern, options: MatcherOptions): Matcher => {
+  if (typeof pattern === 'function') {
+    return (assetName, assetInfo, compilation) =>
+      Boolean(pattern(assetName, assetInfo, compilation));
+  }
+  if (pattern instanceof RegExp) {
+    return (assetName) => {
+      pattern.lastIndex = 0;
+      return pattern.test(assetName);
+    };
+  }
+  if (options.literal) {
+    return (assetName) => assetName === pattern;
+  }
+  const isMatch = picomatch(pattern, { dot: options.dot ?? false });
+  return (assetName) => isMatch(assetName);
+};
+
+const isNegated = (pattern: Pattern, options: MatcherOptions) =>
+  typeof pattern === 'string' && !options.literal && pattern.startsWith('!');
+
+/**
+ * Compiles a list of patterns into a single predicate. An asset matches when
+ * at least one positive pattern (string, RegExp or function) matches it and
+ * neither the negated (`!`) glob patterns nor any of the `exclude` patterns
+ * do.
+ */
+export const createMatcher = (
+  patterns: Pattern[],
+  options: MatcherOptions = {},
+  exclude: Pattern[] = []
+): Matcher => {
+  const includes = patterns
+    .filter((pattern) => !isNegated(pattern, options))
+    .map((pattern) => compilePattern(pattern, options));
+  const excludes = [
+    ...patterns
+      .filter((pattern) => isNegated(pattern, options))
+      .map((pattern) => compilePattern((pattern as string).slice(1), options)),
+    ...exclude.map((pattern) => compilePattern(pattern, options)),
+  ];
+
+  return (assetName, assetInfo, compilation) =>
+    includes.some((matches) => matches(assetName, assetInfo, compilation)) &&
+    !excludes.some((matches) => matches(assetName, assetInfo, compilation));
+};
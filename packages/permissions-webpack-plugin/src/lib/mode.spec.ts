@@ -0,0 +1,134 @@
+import {
+  formatMode,
+  isAmbiguousMode,
+  isRelativeExpression,
+  parsePermissionBits,
+  parsePermissions,
+  parseSymbolicMode,
+} from './mode.js';
+
+describe('parsePermissions', () => {
+  it.each([
+    ['755', 0o755],
+    ['0755', 0o755],
+    ['0o755', 0o755],
+    ['0644', 0o644],
+    ['4755', 0o4755],
+    ['01777', 0o1777],
+  ])('should parse octal string %s', (value, expected) => {
+    expect(parsePermissions(value)).toBe(expected);
+  });
+
+  it.each([
+    ['rwxr-xr-x', 0o755],
+    ['rw-r--r--', 0o644],
+    ['---------', 0],
+    ['rwsr-xr-x', 0o4755],
+    ['rwSr-sr-x', 0o6655],
+    ['rwxrwxrwt', 0o1777],
+    ['rwxrwxrwT', 0o1776],
+  ])('should parse symbolic string %s', (value, expected) => {
+    expect(parsePermissions(value)).toBe(expected);
+  });
+
+  it.each([
+    ['u=rwx,go=rx', 0o755],
+    ['a=r', 0o444],
+    ['ug=rw,o=', 0o660],
+    ['u=rwxs', 0o4700],
+  ])('should parse chmod-style expression %s', (value, expected) => {
+    expect(parsePermissions(value)).toBe(expected);
+  });
+
+  it.each(['u+x', '+x', 'a=r,u+w', 'u+rwx,g-w'])(
+    'should reject chmod-style expression %s that adds or removes permissions',
+    (value) => {
+      expect(parsePermissions(value)).toBeNull();
+    }
+  );
+
+  it.each(['', '999', '0x1ed', 'rwxr-xr', 'rwxr-xr-xx', 'u', 'z+x', 'u+q'])(
+    'should reject invalid value %j',
+    (value) => {
+      expect(parsePermissions(value)).toBeNull();
+    }
+  );
+});
+
+describe('parsePermissionBits', () => {
+  it.each([
+    ['0755', 0o755],
+    ['rwxr-xr-x', 0o755],
+    ['u=rwx,go=rx', 0o755],
+    ['a=r,u+w', 0o644],
+    ['u+x', 0o100],
+    ['+x', 0o111],
+    ['u+rwx,g-w', 0o700],
+  ])('should parse %s', (value, expected) => {
+    expect(parsePermissionBits(value)).toBe(expected);
+  });
+
+  it.each(['', '999', 'rwxr-xr', 'z+x', 'u+q'])(
+    'should reject invalid value %j',
+    (value) => {
+      expect(parsePermissionBits(value)).toBeNull();
+    }
+  );
+});
+
+describe('isRelativeExpression', () => {
+  it.each(['u+x', '+x', 'a=r,u+w', 'o-w'])('should accept %s', (value) => {
+    expect(isRelativeExpression(value)).toBe(true);
+  });
+
+  it.each(['0755', 'rwxr-xr-x', 'u=rwx,go=rx', 'rwxr-x', 'u+q'])(
+    'should reject %s',
+    (value) => {
+      expect(isRelativeExpression(value)).toBe(false);
+    }
+  );
+});
+
+describe('parseSymbolicMode', () => {
+  it('should apply additions and removals to the current mode', () => {
+    const transform = parseSymbolicMode('u+x,g+x,o-w');
+
+    expect(transform?.(0o646)).toBe(0o754);
+  });
+
+  it('should support several actions in one clause', () => {
+    expect(parseSymbolicMode('u+x-w')?.(0o644)).toBe(0o544);
+  });
+
+  it('should only add X when an execute bit is already set', () => {
+    const transform = parseSymbolicMode('a+X');
+
+    expect(transform?.(0o644)).toBe(0o644);
+    expect(transform?.(0o744)).toBe(0o755);
+  });
+
+  it('should only set the sticky bit for others', () => {
+    expect(parseSymbolicMode('u+t')?.(0o755)).toBe(0o755);
+    expect(parseSymbolicMode('o+t')?.(0o755)).toBe(0o1755);
+  });
+});
+
+describe('isAmbiguousMode', () => {
+  it.each([755, 644, 777, 700, 600])('should flag %d', (mode) => {
+    expect(isAmbiguousMode(mode)).toBe(true);
+  });
+
+  it.each([
+    0o755, 0o644, 0o777, 0o600, 0, 493, 0o4755, 0o2755, 0o1777, 0o6755, 0o4750,
+  ])('should not flag %d', (mode) => {
+    expect(isAmbiguousMode(mode)).toBe(false);
+  });
+});
+
+describe('formatMode', () => {
+  it('should format modes as octal literals', () => {
+    expect(formatMode(0o755)).toBe('0o755');
+    expect(formatMode(0o4755)).toBe('0o4755');
+    expect(formatMode(0o7)).toBe('0o007');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * File mode as a number (`0o755`), an octal string (`'0755'`, `'755'`,
+ * `'0o755'`), a symbolic string (`'rwxr-xr-x'`) or a chmod-style expression
+ * (`'u=rwx,go=rx'`). Only `add` and `remove` accept `+` and `-` clauses
+ * (`'u+x,g-w'`).
+ */
+export type Permissions = number | string;
+
+export type ModeTransform = (mode: number) => number;
+
+const OCTAL_PATTERN = /^(?:0o?)?([0-7]{3,4})$/i;
+const SYMBOLIC_PATTERN = /^[r-][w-][xsS-][r-][w-][xsS-][r-][w-][xtT-]$/;
+const CLAUSE_PATTERN = /^([ugoa]*)((?:[-+=][rwxXst]*)+)$/;
+const ACTION_PATTERN = /([-+=])([rwxXst]*)/g;
+
+const WHO_MASKS: Record<string, number> = {
+  u: 0o4700,
+  g: 0o2070,
+  o: 0o1007,
+  a: 0o7777,
+};
+
+/**
+ * Three digit numbers that read like an octal mode but only make sense as a
+ * mode with special bits set, e.g. `755` (`0o1363`), which is almost always
+ * `0o755` without its prefix.
+ */
+export const isAmbiguousMode = (mode: number): boolean =>
+  mode > 0o777 && /^[0-7]{3}$/.test(String(mode));
+
+const parseSymbolic = (value: string): number => {
+  let mode = 0;
+  for (let i = 0; i < 9; i++) {
+    const char = value[i];
+    const bit = 1 << (8 - i);
+    if (char !== '-' && char !== 'S' && char !== 'T') {
+      mode |= bit;
+    }
+  }
+  if (/[sS]/.test(value[2])) {
+    mode |= 0o4000;
+  }
+  if (/[sS]/.test(value[5])) {
+    mode |= 0o2000;
+  }
+  if (/[tT]/.test(value[8])) {
+    mode |= 0o1000;
+  }
+  return mode;
+};
+
+const permissionBits = (
+  perms: string,
+  who: number,
+  current: number
+): number => {
+  let bits = 0;
+  for (const perm of perms) {
+    switch (perm) {
+      case 'r':
+        bits |= 0o444 & who;
+        break;
+      case 'w':
+        bits |= 0o222 & who;
+        break;
+      case 'x':
+        bits |= 0o111 & who;
+        break;
+      case 'X':
+        if (current & 0o111) {
+          bits |= 0o111 & who;
+        }
+        break;
+      case 's':
+        bits |= 0o6000 & who;
+        break;
+      case 't':
+        bits |= 0o1000 & who;
+        break;
+    }
+  }
+  return bits;
+};
+
+/**
+ * Parses a chmod-style expression such as `'u+x,g-w'` or `'a=r,u+w'` into a
+ * function that applies it to an existing mode. Returns `null` when the
+ * expression is not valid.
+ */
+export const parseSymbolicMode = (expression: string): ModeTransform | null => {
+  const clauses = expression.split(',');
+  const steps: { who: number; op: string; perms: string }[] = [];
+
+  for (const clause of clauses) {
+    const match = CLAUSE_PATTERN.exec(clause);
+    if (!match) {
+      return null;
+    }
+    const who = (match[1] || 'a')
+      .split('')
+      .reduce((mask, letter) => mask | WHO_MASKS[letter], 0);
+    for (const [, op, perms] of match[2].matchAll(ACTION_PATTERN)) {
+      steps.push({ who, op, perms });
+    }
+  }
+
+  return (mode) =>
+    steps.reduce((current, { who, op, perms }) => {
+      const bits = permissionBits(perms, who, current);
+      switch (op) {
+        case '+':
+          return current | bits;
+        case '-':
+          return current & ~bits;
+        default:
+          return (current & ~who) | bits;
+      }
+    }, mode);
+};
+
+/**
+ * Whether the string is a chmod-style expression that adds or removes
+ * permissions (`'u+x'`) instead of only assigning them (`'u=rwx'`).
+ */
+export const isRelativeExpression = (value: string): boolean =>
+  !SYMBOLIC_PATTERN.test(value) &&
+  /[-+]/.test(value) &&
+  value.split(',').every((clause) => CLAUSE_PATTERN.test(clause));
+
+/**
+ * Converts a permissions string to the bits it sets, for the `add` and
+ * `remove` options. Chmod-style expressions are applied to an empty mode, so
+ * `'u+x'` results in `0o100`. Returns `null` when the string is not valid.
+ */
+export const parsePermissionBits = (value: string): number | null => {
+  const octal = OCTAL_PATTERN.exec(value);
+  if (octal) {
+    return parseInt(octal[1], 8);
+  }
+  if (SYMBOLIC_PATTERN.test(value)) {
+    return parseSymbolic(value);
+  }
+  const transform = parseSymbolicMode(value);
+  return transform ? transform(0) : null;
+};
+
+/**
+ * Converts a permissions string to an absolute mode. Chmod-style expressions
+ * may only assign permissions with `=`. Returns `null` when the string is not
+ * valid.
+ */
+export const parsePermissions = (value: string): number | null =>
+  isRelativeExpression(value) ? null : parsePermissionBits(value);
+
+export const formatMode = (mode: number): string =>
+  `0o${mode.toString(8).padStart(3, '0')}`;
@@ -0,0 +1,64 @@
+import { readFile } from 'node:fs/promises';
+import { createOwnershipResolver } from './ownership.js';
+
+vi.mock('node:fs/promises', () => ({
+  readFile: vi.fn((file: string) =>
+    Promise.resolve(
+      file === '/etc/passwd'
+        ? [
+            '# comment',
+            'root:x:0:0:root:/root:/bin/bash',
+            'app:x:1001:1001::/home/app:/bin/sh',
+          ].join('\n')
+        : ['root:x:0:', 'app:x:1001:', 'www-data:x:33:'].join('\n')
+    )
+  ),
+}));
+
+describe('createOwnershipResolver', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resolve names from the passwd and group files', async () => {
+    const resolve = createOwnershipResolver();
+
+    await expect(resolve('app', 'www-data')).resolves.toEqual({
+      uid: 1001,
+      gid: 33,
+    });
+  });
+
+  it('should pass numeric ids through', async () => {
+    const resolve = createOwnershipResolver();
+
+    await expect(resolve(1000, '50')).resolves.toEqual({ uid: 1000, gid: 50 });
+    expect(readFile).not.toHaveBeenCalled();
+  });
+
+  it('should keep unset ids unchanged', async () => {
+    const resolve = createOwnershipResolver();
+
+    await expect(resolve(undefined, 'app')).resolves.toEqual({
+      uid: -1,
+      gid: 1001,
+    });
+  });
+
+  it('should read each file once', async () => {
+    const resolve = createOwnershipResolver();
+
+    await resolve('app', 'app');
+    await resolve('root', 'root');
+
+    expect(readFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unknown names', async () => {
+    const resolve = createOwnershipResolver();
+
+    await expect(resolve('nobody')).rejects.toThrow(
+      'Unknown user "nobody" in /etc/passwd.'
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { readFile } from 'node:fs/promises';
+
+/**
+ * User or group as a numeric id or a name from the local passwd/group files.
+ */
+export type Owner = number | string;
+
+export interface Ownership {
+  uid: number;
+  gid: number;
+}
+
+const PASSWD_FILE = '/etc/passwd';
+const GROUP_FILE = '/etc/group';
+
+const parseEntries = (content: string): Map<string, number> => {
+  const entries = new Map<string, number>();
+  for (const line of content.split('\n')) {
+    const [name, , id] = line.split(':');
+    if (name && !name.startsWith('#') && /^\d+$/.test(id ?? '')) {
+      entries.set(name, Number(id));
+    }
+  }
+  return entries;
+};
+
+/**
+ * Creates a resolver that maps user and group names to ids. Each file is
+ * read at most once per resolver.
+ */
+export const createOwnershipResolver = () => {
+  const files = new Map<string, Promise<Map<string, number>>>();
+
+  const resolveId = (
+    value: Owner | undefined,
+    file: string,
+    kind: string
+  ): Promise<number> => {
+    if (typeof value === 'undefined') {
+      return Promise.resolve(-1);
+    }
+    if (typeof value === 'number') {
+      return Promise.resolve(value);
+    }
+    if (/^\d+$/.test(value)) {
+      return Promise.resolve(Number(value));
+    }
+    let entries = files.get(file);
+    if (!entries) {
+      entries = readFile(file, 'utf8').then(parseEntries);
+      files.set(file, entries);
+    }
+    return entries.then((ids) => {
+      const id = ids.get(value);
+      if (typeof id === 'undefined') {
+        throw new Error(`Unknown ${kind} "${value}" in ${file}.`);
+      }
+      return id;
+    });
+  };
+
+  return (owner?: Owner, group?: Owner): Promise<Ownership> =>
+    Promise.all([
+      resolveId(owner, PASSWD_FILE, 'user'),
+      resolveId(group, GROUP_FILE, 'group'),
+    ]).then(([uid, gid]) => ({ uid, gid }));
+};
@@ -1,15 +1,32 @@
 import { Mode, NoParamCallback, PathLike } from 'node:fs';
-import { join } from 'node:path';
-import type {
-  Compilation,
-  Compiler,
-  OutputFileSystem,
-  WebpackOptionsNormalized,
+import { dirname, join } from 'node:path';
+import { mkdir, mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { gunzipSync } from 'node:zlib';
+import webpack, {
+  type Compilation,
+  type Compiler,
+  type MultiCompiler,
+  type OutputFileSystem,
+  type Stats,
+  type WebpackOptionsNormalized,
 } from 'webpack';
 import {
   SetFilePermissionsPlugin,
   SetFilePermissionsPluginOptions,
 } from './permissions-webpack-plugin.js';
+import { createTar } from './tar.js';
+
+vi.mock('node:fs/promises', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node:fs/promises')>()),
+  readFile: vi.fn((file: string) =>
+    Promise.resolve(
+      file === '/etc/passwd'
+        ? 'root:x:0:0:root:/root:/bin/bash\napp:x:1001:1001::/home/app:/bin/sh'
+        : 'root:x:0:\napp:x:1001:'
+    )
+  ),
+}));
 
 describe('SetFilePermissionsPlugin', () => {
   let mockCompiler: Partial<Compiler>;
@@ -18,6 +35,10 @@ describe('SetFilePermissionsPlugin', () => {
     chmod: (path: PathLike, mode: Mode, callback: NoParamCallback) => void;
   };
   let mockChmod: ReturnType<typeof vi.fn>;
+  let mockLogger: {
+    debug: ReturnType<typeof vi.fn>;
+    info: ReturnType<typeof vi.fn>;
+  };
 
   beforeEach(() => {
     mockChmod = vi.fn(
@@ -28,12 +49,23 @@ describe('SetFilePermissionsPlugin', () => {
 
     mockOutputFileSystem = {
       chmod: mockChmod,
+      mkdir: vi.fn(
+        (path: string, options: unknown, callback: (err?: Error) => void) =>
+          callback()
+      ) as unknown as OutputFileSystem['mkdir'],
+    };
+
+    mockLogger = {
+      debug: vi.fn(),
+      info: vi.fn(),
     };
 
     mockCompilation = {
       assets: {},
+      assetsInfo: new Map(),
       warnings: [],
       errors: [],
+      getLogger: vi.fn(() => mockLogger as any),
     };
 
     mockCompiler = {
@@ -88,7 +120,7 @@ describe('SetFilePermissionsPlugin', () => {
       };
 
       expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
-        'SetFilePermissionsPlugin: The "rules" option must be an array.'
+        'options.rules should be an array'
       );
     });
 
@@ -98,7 +130,7 @@ describe('SetFilePermissionsPlugin', () => {
       };
 
       expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
-        'SetFilePermissionsPlugin: Rule at index 0 must be an object.'
+        'options.rules[0] should be an object'
       );
     });
 
@@ -112,7 +144,7 @@ describe('SetFilePermissionsPlugin', () => {
       };
 
       expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
-        'SetFilePermissionsPlugin: "permissions" option is required for rule at index 0.'
+        'SetFilePermissionsPlugin: "permissions", "add" or "remove" option is required for rule at index 0.'
       );
     });
 
@@ -126,7 +158,7 @@ describe('SetFilePermissionsPlugin', () => {
       };
 
       expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
-        'SetFilePermissionsPlugin: "patterns" option is required for rule at index 0.'
+        'SetFilePermissionsPlugin: "patterns", "entries" or "chunks" option is required for rule at index 0.'
       );
     });
 
@@ -141,7 +173,7 @@ describe('SetFilePermissionsPlugin', () => {
       };
 
       expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
-        'SetFilePermissionsPlugin: "patterns" option for rule at index 0 must be a string, RegExp, or an array of strings/RegExps.'
+        'options.rules[0].patterns should be one of these'
       );
     });
 
@@ -183,6 +215,368 @@ describe('SetFilePermissionsPlugin', () => {
 
       expect(() => new SetFilePermissionsPlugin(options)).not.toThrow();
     });
+
+    it('should accept function pattern', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: [(assetName) => assetName.startsWith('bin/'), '*.sh'],
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).not.toThrow();
+    });
+
+    it('should accept entries without patterns', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            entries: ['cli', 'worker'],
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).not.toThrow();
+    });
+
+    it('should throw error when entries is invalid type', () => {
+      const options = {
+        rules: [
+          {
+            permissions: 0o755,
+            entries: [1],
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.rules[0].entries[0] should be a string'
+      );
+    });
+
+    it('should throw error when shebang is an invalid mode', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [],
+        shebang: 'rwx',
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+        'SetFilePermissionsPlugin: The "shebang" option is not a valid mode: "rwx".'
+      );
+    });
+
+    it('should throw error when directories is not an array', () => {
+      const options = {
+        rules: [],
+        directories: {},
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.directories should be an array'
+      );
+    });
+
+    it('should throw error when directory rule has no patterns', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [],
+        directories: [{ permissions: 0o750 }],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+        'SetFilePermissionsPlugin: "patterns" or "parentsOf" option is required for directory rule at index 0.'
+      );
+    });
+
+    it('should throw error when directory rule is not an object', () => {
+      const options = {
+        rules: [],
+        directories: [null],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.directories[0] should be an object'
+      );
+    });
+
+    it('should throw error when owner is invalid', () => {
+      const options = {
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: 'server.js',
+            owner: -1,
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.rules[0].owner should be >= 0'
+      );
+    });
+
+    it('should throw error when scan is invalid type', () => {
+      const options = {
+        rules: [],
+        scan: 'yes',
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.scan should be one of these'
+      );
+    });
+
+    it('should throw error when incremental is not a boolean', () => {
+      const options = {
+        rules: [],
+        incremental: 'no',
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.incremental should be a boolean'
+      );
+    });
+
+    it.each(['verify', 'strict'])(
+      'should throw error when %s is not a boolean',
+      (option) => {
+        const options = {
+          rules: [],
+          [option]: 1,
+        };
+
+        expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+          `options.${option} should be a boolean`
+        );
+      }
+    );
+
+    it('should throw error when preferAssetInfo is not a boolean', () => {
+      const options = {
+        rules: [],
+        preferAssetInfo: 'yes',
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.preferAssetInfo should be a boolean'
+      );
+    });
+
+    it('should throw error when severity is not an object', () => {
+      const options = {
+        rules: [],
+        severity: 'error',
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.severity should be an object'
+      );
+    });
+
+    it('should throw error for an unknown severity', () => {
+      const options = {
+        rules: [],
+        severity: { failure: 'fatal' },
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.severity.failure should be one of these'
+      );
+    });
+
+    it('should throw error when dryRun is not a boolean or an object', () => {
+      const options = {
+        rules: [],
+        dryRun: 'yes',
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.dryRun should be one of these'
+      );
+    });
+
+    it('should throw error when literal is not a boolean', () => {
+      const options = {
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: 'script.js',
+            literal: 'yes',
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.rules[0].literal should be a boolean'
+      );
+    });
+
+    it('should throw error when permissions is an invalid string', () => {
+      const options = {
+        rules: [
+          {
+            permissions: 'rwxr-x',
+            patterns: 'script.js',
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'SetFilePermissionsPlugin: "permissions" option for rule at index 0 is not a valid mode: "rwxr-x".'
+      );
+    });
+
+    it('should throw error when permissions adds or removes permissions', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [{ permissions: 'u+x,g-w', patterns: 'script.js' }],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+        'SetFilePermissionsPlugin: "permissions" option for rule at index 0 must be an absolute mode, but "u+x,g-w" adds or removes permissions. Use "=" to assign them, or the "add" and "remove" options of a rule.'
+      );
+    });
+
+    it('should throw error when the shebang mode adds permissions', () => {
+      expect(
+        () => new SetFilePermissionsPlugin({ rules: [], shebang: 'u+x' })
+      ).toThrow(
+        'SetFilePermissionsPlugin: The "shebang" option must be an absolute mode'
+      );
+    });
+
+    it('should throw error when permissions is not a number or string', () => {
+      const options = {
+        rules: [
+          {
+            permissions: true,
+            patterns: 'script.js',
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        'options.rules[0].permissions should be one of these'
+      );
+    });
+
+    it.each([-1, 1.5, 0o10000])(
+      'should throw error when permissions is out of range: %d',
+      (permissions) => {
+        const options = {
+          rules: [{ permissions, patterns: 'script.js' }],
+        };
+
+        expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+          'options.rules[0].permissions should be'
+        );
+      }
+    );
+
+    it('should throw error for unknown rule options', () => {
+      const options = {
+        rules: [{ permissions: 0o755, pattern: 'script.js' }],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        "options.rules[0] has an unknown property 'pattern'"
+      );
+    });
+
+    it('should throw error for unknown options', () => {
+      const options = {
+        rules: [],
+        incrementl: false,
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options as any)).toThrow(
+        "options has an unknown property 'incrementl'"
+      );
+    });
+
+    it('should throw error when defaultPermissions is an invalid mode', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [],
+        defaultPermissions: { permissions: 'rw-' },
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+        'SetFilePermissionsPlugin: The "defaultPermissions" option is not a valid mode: "rw-".'
+      );
+    });
+
+    it('should throw error for ambiguous numeric permissions', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 755,
+            patterns: 'script.js',
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+        `SetFilePermissionsPlugin: "permissions" option for rule at index 0 is ambiguous: 755 reads like 0o755, but is 0o1363. Use 0o755 or '755' for 0o755, or set "allowAmbiguousPermissions" to keep 0o1363.`
+      );
+    });
+
+    it('should accept ambiguous numeric permissions when allowed', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 755,
+            patterns: 'script.js',
+          },
+        ],
+        allowAmbiguousPermissions: true,
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).not.toThrow();
+    });
+
+    it.each([0o4755, 0o1777])(
+      'should accept octal permissions %o with special bits',
+      (permissions) => {
+        expect(
+          () =>
+            new SetFilePermissionsPlugin({
+              rules: [{ permissions, patterns: 'script.js' }],
+            })
+        ).not.toThrow();
+      }
+    );
+
+    it('should throw error when permissions is combined with add', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            add: 'u+x',
+            patterns: 'script.js',
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+        'SetFilePermissionsPlugin: "permissions" option cannot be combined with "add" or "remove" for rule at index 0.'
+      );
+    });
+
+    it('should throw error when remove is an invalid string', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            remove: 'o+q',
+            patterns: 'script.js',
+          },
+        ],
+      };
+
+      expect(() => new SetFilePermissionsPlugin(options)).toThrow(
+        'SetFilePermissionsPlugin: "remove" option for rule at index 0 is not a valid mode: "o+q".'
+      );
+    });
   });
 
   describe('apply', () => {
@@ -607,23 +1001,2731 @@ describe('SetFilePermissionsPlugin', () => {
       expect(mockChmod).toHaveBeenCalledTimes(6);
     });
 
-    it('should handle errors during Promise.all execution', async () => {
+    it('should set permissions for matching glob patterns', async () => {
       const options: SetFilePermissionsPluginOptions = {
         rules: [
           {
             permissions: 0o755,
-            patterns: 'script.js',
+            patterns: ['bin/**', '!bin/internal/**'],
           },
         ],
       };
 
       mockCompilation.assets = {
-        'script.js': {} as any,
+        'bin/cli.js': {} as any,
+        'bin/internal/helper.js': {} as any,
+        'main.js': {} as any,
       };
 
-      mockChmod = vi.fn(() => {
-        throw new Error('Unexpected error');
-      });
+      const plugin = new SetFilePermissionsPlugin(options);
+      const { runHook } = createTestHelper();
+
+      await runHook(plugin);
+
+      expect(mockChmod).toHaveBeenCalledWith(
+        join('/output/path', 'bin/cli.js'),
+        0o755,
+        expect.any(Function)
+      );
+      expect(mockChmod).toHaveBeenCalledTimes(1);
+    });
+
+    it('should match string patterns literally when requested', async () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: '*.js',
+            literal: true,
+          },
+        ],
+      };
+
+      mockCompilation.assets = {
+        '*.js': {} as any,
+        'main.js': {} as any,
+      };
+
+      const plugin = new SetFilePermissionsPlugin(options);
+      const { runHook } = createTestHelper();
+
+      await runHook(plugin);
+
+      expect(mockChmod).toHaveBeenCalledWith(
+        join('/output/path', '*.js'),
+        0o755,
+        expect.any(Function)
+      );
+      expect(mockChmod).toHaveBeenCalledTimes(1);
+    });
+
+    it('should add and remove bits relative to the current mode', async () => {
+      const mockStat = vi.fn(
+        (path: string, callback: (err: Error | null, stats?: any) => void) => {
+          callback(null, {
+            mode: path.endsWith('cli.js') ? 0o100646 : 0o100600,
+          });
+        }
+      );
+      (mockOutputFileSystem as any).stat = mockStat;
+
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            add: 'u+x,g+x',
+            remove: 'o+w',
+            patterns: ['cli.js', 'worker.js'],
+          },
+        ],
+      };
+
+      mockCompilation.assets = {
+        'cli.js': {} as any,
+        'worker.js': {} as any,
+      };
+
+      const plugin = new SetFilePermissionsPlugin(options);
+      const { runHook } = createTestHelper();
+
+      await runHook(plugin);
+
+      expect(mockStat).toHaveBeenCalledWith(
+        join('/output/path', 'cli.js'),
+        expect.any(Function)
+      );
+      expect(mockChmod).toHaveBeenCalledWith(
+        join('/output/path', 'cli.js'),
+        0o754,
+        expect.any(Function)
+      );
+      expect(mockChmod).toHaveBeenCalledWith(
+        join('/output/path', 'worker.js'),
+        0o710,
+        expect.any(Function)
+      );
+    });
+
+    it('should add warning and skip chmod when stat fails', async () => {
+      (mockOutputFileSystem as any).stat = vi.fn(
+        (path: string, callback: (err: Error | null) => void) => {
+          callback(new Error('No such file'));
+        }
+      );
+
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            add: 'u+x',
+            patterns: 'script.js',
+          },
+        ],
+      };
+
+      mockCompilation.assets = {
+        'script.js': {} as any,
+      };
+
+      const plugin = new SetFilePermissionsPlugin(options);
+      const { runHook } = createTestHelper();
+
+      await runHook(plugin);
+
+      expect(mockChmod).not.toHaveBeenCalled();
+      expect(mockCompilation.warnings).toHaveLength(1);
+      expect(mockCompilation.warnings?.[0]?.message).toContain(
+        'Could not read permissions for'
+      );
+      expect(mockCompilation.warnings?.[0]?.message).toContain('No such file');
+    });
+
+    it('should set permissions for assets matched by function patterns', async () => {
+      const predicate = vi.fn(
+        (assetName: string, assetInfo: Record<string, unknown>) =>
+          assetInfo['executable'] === true
+      );
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: predicate,
+          },
+        ],
+      };
+
+      mockCompilation.assets = {
+        'cli.js': {} as any,
+        'main.js': {} as any,
+      };
+      mockCompilation.assetsInfo = new Map([['cli.js', { executable: true }]]);
+
+      const plugin = new SetFilePermissionsPlugin(options);
+      const { runHook } = createTestHelper();
+
+      await runHook(plugin);
+
+      expect(predicate).toHaveBeenCalledWith(
+        'cli.js',
+        { executable: true },
+        mockCompilation
+      );
+      expect(predicate).toHaveBeenCalledWith('main.js', {}, mockCompilation);
+      expect(mockChmod).toHaveBeenCalledWith(
+        join('/output/path', 'cli.js'),
+        0o755,
+        expect.any(Function)
+      );
+      expect(mockChmod).toHaveBeenCalledTimes(1);
+    });
+
+    it('should set permissions for files of selected entrypoints', async () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            entries: 'cli',
+            patterns: '!**/*.LICENSE.txt',
+          },
+        ],
+      };
+
+      mockCompilation.assets = {
+        'cli.3f9a.js': {} as any,
+        'cli.3f9a.js.LICENSE.txt': {} as any,
+        'main.7c1d.js': {} as any,
+      };
+      mockCompilation.entrypoints = new Map([
+        [
+          'cli',
+          {
+            chunks: [
+              {
+                files: new Set(['cli.3f9a.js', 'cli.3f9a.js.LICENSE.txt']),
+                auxiliaryFiles: new Set(),
+              },
+            ],
+          },
+        ],
+      ]) as any;
+
+      const plugin = new SetFilePermissionsPlugin(options);
+      const { runHook } = createTestHelper();
+
+      await runHook(plugin);
+
+      expect(mockChmod).toHaveBeenCalledWith(
+        join('/output/path', 'cli.3f9a.js'),
+        0o755,
+        expect.any(Function)
+      );
+      expect(mockChmod).toHaveBeenCalledTimes(1);
+    });
+
+    describe('shebang', () => {
+      beforeEach(() => {
+        (mockCompiler.hooks as any).assetEmitted = { tap: vi.fn() };
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (
+            path: string,
+            callback: (err: Error | null, stats?: any) => void
+          ) => {
+            callback(null, { mode: 0o100644 });
+          }
+        );
+      });
+
+      it('should make JavaScript assets with a shebang executable', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [],
+          shebang: true,
+        };
+
+        mockCompilation.assets = {
+          'cli.js': { source: () => '#!/usr/bin/env node\n' } as any,
+          'main.js': { source: () => 'console.log(1);' } as any,
+          'run.sh': { source: () => '#!/bin/sh\n' } as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should use assets recorded when they were emitted', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [],
+          shebang: 'rwxr-x---',
+        };
+
+        mockCompilation.assets = {
+          'bin/cli.mjs': {
+            source: () => {
+              throw new Error('Content is not available');
+            },
+          } as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+        plugin.apply(mockCompiler as Compiler);
+
+        const assetEmitted = (mockCompiler.hooks as any).assetEmitted.tap.mock
+          .calls[0][1];
+        assetEmitted('bin/cli.mjs', {
+          content: Buffer.from('#!/usr/bin/env node\n'),
+          compilation: mockCompilation,
+        });
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'bin/cli.mjs'),
+          0o750,
+          expect.any(Function)
+        );
+      });
+
+      it('should read assets that were not emitted again from the output file system', async () => {
+        const released = {
+          source: () => {
+            throw new Error('Content is not available');
+          },
+        } as any;
+        mockCompilation.assets = {
+          'cli.js': released,
+          'main.js': released,
+          'style.css': released,
+        };
+        (mockOutputFileSystem as any).readFile = vi.fn(
+          (path: string, callback: (err: null, content: Buffer) => void) =>
+            callback(
+              null,
+              Buffer.from(path.endsWith('cli.js') ? '#!/usr/bin/env node' : '')
+            )
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          shebang: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockOutputFileSystem.readFile).toHaveBeenCalledTimes(2);
+        expect(
+          mockChmod.mock.calls.map(([path, mode]) => [path, mode])
+        ).toEqual([[join('/output/path', 'cli.js'), 0o755]]);
+      });
+
+      it('should only read the first bytes when the file system can open files', async () => {
+        mockCompilation.assets = {
+          'cli.js': {
+            source: () => {
+              throw new Error('Content is not available');
+            },
+          } as any,
+        };
+        Object.assign(mockOutputFileSystem, {
+          readFile: vi.fn(),
+          open: vi.fn((path: string, flags: string, callback: any) =>
+            callback(null, 3)
+          ),
+          read: vi.fn(
+            (
+              fd: number,
+              buffer: Buffer,
+              offset: number,
+              length: number,
+              position: number,
+              callback: any
+            ) => callback(null, buffer.write('#!', offset))
+          ),
+          close: vi.fn((fd: number, callback: () => void) => callback()),
+        });
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          shebang: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect((mockOutputFileSystem as any).read).toHaveBeenCalledWith(
+          3,
+          expect.any(Buffer),
+          0,
+          2,
+          0,
+          expect.any(Function)
+        );
+        expect((mockOutputFileSystem as any).close).toHaveBeenCalled();
+        expect(mockOutputFileSystem.readFile).not.toHaveBeenCalled();
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o755,
+          expect.any(Function)
+        );
+      });
+
+      it('should prefer matching rules over the shebang mode', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions: 0o700,
+              patterns: 'cli.js',
+            },
+          ],
+          shebang: true,
+        };
+
+        mockCompilation.assets = {
+          'cli.js': { source: () => '#!/usr/bin/env node\n' } as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o700,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not inspect assets when disabled', async () => {
+        const source = vi.fn(() => '#!/usr/bin/env node\n');
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [],
+        };
+
+        mockCompilation.assets = {
+          'cli.js': { source } as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(source).not.toHaveBeenCalled();
+        expect(mockChmod).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('directories', () => {
+      it('should set permissions for matching directories', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [],
+          directories: [
+            {
+              permissions: 0o750,
+              patterns: ['bin', 'lib/native'],
+            },
+          ],
+        };
+
+        mockCompilation.assets = {
+          'bin/cli.js': {} as any,
+          'lib/native/addon.node': {} as any,
+          'lib/index.js': {} as any,
+          'main.js': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'bin'),
+          0o750,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'lib/native'),
+          0o750,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(2);
+      });
+
+      it('should set permissions for parent directories of matched assets', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions: 0o755,
+              patterns: '**/*.node',
+            },
+          ],
+          directories: [
+            {
+              permissions: 0o750,
+              parentsOf: '**/*.node',
+            },
+          ],
+        };
+
+        mockCompilation.assets = {
+          'lib/native/addon.node': {} as any,
+          'assets/logo.png': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(
+          mockChmod.mock.calls.map(([path, mode]) => [path, mode])
+        ).toEqual([
+          [join('/output/path', 'lib/native/addon.node'), 0o755],
+          [join('/output/path', 'lib/native'), 0o750],
+          [join('/output/path', 'lib'), 0o750],
+        ]);
+      });
+
+      it('should use the first matching directory rule', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [],
+          directories: [
+            {
+              permissions: 0o700,
+              patterns: 'bin/private',
+            },
+            {
+              permissions: 0o755,
+              patterns: 'bin/**',
+            },
+          ],
+        };
+
+        mockCompilation.assets = {
+          'bin/private/key.js': {} as any,
+          'bin/public/cli.js': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'bin/private'),
+          0o700,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'bin/public'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'bin'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    describe('ownership', () => {
+      it('should change ownership of matching assets', async () => {
+        const mockChown = vi.fn(
+          (
+            path: string,
+            uid: number,
+            gid: number,
+            callback: (err?: Error) => void
+          ) => {
+            callback();
+          }
+        );
+        (mockOutputFileSystem as any).chown = mockChown;
+
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions: 0o750,
+              patterns: 'server.js',
+              owner: 1001,
+              group: '1002',
+            },
+            {
+              permissions: 0o644,
+              patterns: '*.json',
+            },
+          ],
+        };
+
+        mockCompilation.assets = {
+          'server.js': {} as any,
+          'config.json': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChown).toHaveBeenCalledWith(
+          join('/output/path', 'server.js'),
+          1001,
+          1002,
+          expect.any(Function)
+        );
+        expect(mockChown).toHaveBeenCalledTimes(1);
+        expect(mockChmod).toHaveBeenCalledTimes(2);
+      });
+
+      it('should change ownership before the mode so setuid bits are kept', async () => {
+        const calls: string[] = [];
+        (mockOutputFileSystem as any).chown = vi.fn(
+          (
+            path: string,
+            uid: number,
+            gid: number,
+            callback: (err?: Error) => void
+          ) => {
+            calls.push('chown');
+            callback();
+          }
+        );
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) => {
+            calls.push('chmod');
+            callback();
+          }
+        );
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: null, stats: any) => void) => {
+            calls.push('stat');
+            callback(null, { mode: 0o104755 });
+          }
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: '4755', patterns: 'server.js', owner: 1, group: 1 },
+          ],
+          verify: true,
+        });
+        mockCompilation.assets = { 'server.js': {} as any };
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(calls).toEqual(['chown', 'chmod', 'stat']);
+        expect(mockCompilation.warnings).toEqual([]);
+      });
+
+      it('should add warning when chown fails', async () => {
+        (mockOutputFileSystem as any).chown = vi.fn(
+          (
+            path: string,
+            uid: number,
+            gid: number,
+            callback: (err?: Error) => void
+          ) => {
+            callback(new Error('Operation not permitted'));
+          }
+        );
+
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions: 0o750,
+              patterns: 'server.js',
+              owner: 1001,
+            },
+          ],
+        };
+
+        mockCompilation.assets = {
+          'server.js': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(1);
+        expect(mockCompilation.warnings?.[0]?.message).toContain(
+          'Could not set ownership for'
+        );
+        expect(mockCompilation.warnings?.[0]?.message).toContain(
+          'Operation not permitted'
+        );
+      });
+
+      it('should add warning when output file system does not support chown', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions: 0o750,
+              patterns: 'server.js',
+              group: 1001,
+            },
+          ],
+        };
+
+        mockCompilation.assets = {
+          'server.js': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+        expect(mockCompilation.warnings).toHaveLength(1);
+        expect(mockCompilation.warnings?.[0]?.message).toContain(
+          "The output file system does not support 'chown'. Skipping ownership changes."
+        );
+      });
+    });
+
+    describe('scan', () => {
+      beforeEach(() => {
+        const tree: Record<string, string[]> = {
+          '/output/path': ['main.js', 'native'],
+          [join('/output/path', 'native')]: ['addon.node'],
+        };
+        (mockOutputFileSystem as any).readdir = vi.fn(
+          (
+            path: string,
+            callback: (err: Error | null, files?: string[]) => void
+          ) => callback(null, tree[path])
+        );
+        (mockOutputFileSystem as any).lstat = vi.fn(
+          (path: string, callback: (err: Error | null, stats?: any) => void) =>
+            callback(null, {
+              isDirectory: () => path in tree,
+              isFile: () => !(path in tree),
+            })
+        );
+      });
+
+      it('should apply rules to files that were not emitted', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions: 0o755,
+              patterns: ['**/*.node', '*.js'],
+            },
+          ],
+          scan: true,
+        };
+
+        mockCompilation.assets = {
+          'main.js': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'main.js'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'native/addon.node'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not scan when disabled', async () => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions: 0o755,
+              patterns: '**/*.node',
+            },
+          ],
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect((mockOutputFileSystem as any).readdir).not.toHaveBeenCalled();
+        expect(mockChmod).not.toHaveBeenCalled();
+      });
+
+      it('should add warning when the scan fails', async () => {
+        (mockOutputFileSystem as any).readdir = vi.fn(
+          (path: string, callback: (err: Error | null) => void) =>
+            callback(new Error('ENOENT'))
+        );
+
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [],
+          scan: { directory: 'missing' },
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(1);
+        expect(mockCompilation.warnings?.[0]?.message).toContain(
+          'Could not scan /output/path. Error: ENOENT'
+        );
+      });
+
+      it('should add an error when scanning fails in strict mode', async () => {
+        (mockOutputFileSystem as any).readdir = vi.fn(
+          (path: string, callback: (err: Error | null) => void) =>
+            callback(new Error('ENOENT'))
+        );
+
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          scan: { directory: 'missing' },
+          strict: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(0);
+        expect(mockCompilation.errors).toEqual([
+          new Error(
+            'SetFilePermissionsPlugin: Could not scan /output/path. Error: ENOENT'
+          ),
+        ]);
+      });
+
+      it('should add warning when output file system does not support readdir', async () => {
+        delete (mockOutputFileSystem as any).readdir;
+
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [],
+          scan: true,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings?.[0]?.message).toContain(
+          "The output file system does not support 'readdir'. Skipping output directory scan."
+        );
+      });
+    });
+
+    describe('incremental', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: '*.js',
+          },
+        ],
+      };
+
+      const createRebuild = () => ({
+        ...mockCompilation,
+        assets: {
+          'cli.js': {} as any,
+          'worker.js': {} as any,
+        },
+        emittedAssets: new Set(['worker.js']),
+      });
+
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+          'worker.js': {} as any,
+        };
+        mockCompilation.emittedAssets = new Set();
+      });
+
+      it('should process all assets on the first run', async () => {
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledTimes(2);
+      });
+
+      it('should only process emitted assets on rebuilds', async () => {
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+        mockChmod.mockClear();
+        await runHook(plugin, createRebuild());
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'worker.js'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not scan assets that were not emitted again on rebuilds', async () => {
+        (mockOutputFileSystem as any).readdir = vi.fn(
+          (
+            path: string,
+            callback: (err: Error | null, files?: string[]) => void
+          ) => callback(null, ['cli.js', 'worker.js'])
+        );
+        (mockOutputFileSystem as any).lstat = vi.fn(
+          (path: string, callback: (err: Error | null, stats?: any) => void) =>
+            callback(null, { isDirectory: () => false, isFile: () => true })
+        );
+        const plugin = new SetFilePermissionsPlugin({ ...options, scan: true });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+        mockChmod.mockClear();
+        await runHook(plugin, createRebuild());
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'worker.js'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should process all assets on rebuilds when disabled', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          ...options,
+          incremental: false,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+        mockChmod.mockClear();
+        await runHook(plugin, createRebuild());
+
+        expect(mockChmod).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('dryRun', () => {
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+          'style.css': {} as any,
+        };
+      });
+
+      it('should log planned modes without calling chmod', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          dryRun: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).not.toHaveBeenCalled();
+        expect(mockCompilation.getLogger).toHaveBeenCalledWith(
+          'SetFilePermissionsPlugin'
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[dry run] cli.js: 0o755 (rule 0)'
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[dry run] style.css: no matching rule'
+        );
+      });
+
+      it('should not require chmod support', async () => {
+        delete (mockOutputFileSystem as any).chmod;
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          dryRun: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(0);
+        expect(mockLogger.info).toHaveBeenCalledTimes(2);
+      });
+
+      it('should resolve relative modes from the current mode', async () => {
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: Error | null, stats?: any) => void) =>
+            callback(null, { mode: 0o100644 })
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ add: 0o111, patterns: '*.js' }],
+          dryRun: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          '[dry run] cli.js: 0o755 (rule 0)'
+        );
+      });
+
+      it('should write a JSON report', async () => {
+        (mockOutputFileSystem as any).writeFile = vi.fn(
+          (path: string, data: string, callback: (err?: Error) => void) =>
+            callback()
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '**/*.js' }],
+          directories: [{ permissions: 0o750, parentsOf: '**/*.js' }],
+          dryRun: { report: 'permissions-report.json' },
+        });
+        mockCompilation.assets = {
+          'bin/cli.js': {} as any,
+          'style.css': {} as any,
+        };
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        const [path, data] = (mockOutputFileSystem as any).writeFile.mock
+          .calls[0];
+        expect(path).toBe(join('/output/path', 'permissions-report.json'));
+        expect(JSON.parse(data)).toEqual({
+          files: [
+            { path: 'bin/cli.js', type: 'file', rule: 0, mode: '0o755' },
+            { path: 'style.css', type: 'file', rule: null, mode: null },
+            { path: 'bin', type: 'directory', rule: 0, mode: '0o750' },
+          ],
+        });
+      });
+
+      it('should create the directory of the report', async () => {
+        (mockOutputFileSystem as any).writeFile = vi.fn(
+          (path: string, data: string, callback: (err?: Error) => void) =>
+            callback()
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          dryRun: { report: 'reports/plan.json' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockOutputFileSystem.mkdir).toHaveBeenCalledWith(
+          join('/output/path', 'reports'),
+          { recursive: true },
+          expect.any(Function)
+        );
+        expect((mockOutputFileSystem as any).writeFile).toHaveBeenCalledWith(
+          join('/output/path', 'reports/plan.json'),
+          expect.any(String),
+          expect.any(Function)
+        );
+        expect(mockCompilation.warnings).toHaveLength(0);
+      });
+
+      it('should add a warning when the report directory cannot be created', async () => {
+        (mockOutputFileSystem as any).mkdir = vi.fn(
+          (path: string, options: unknown, callback: (err?: Error) => void) =>
+            callback(new Error('EACCES'))
+        );
+        (mockOutputFileSystem as any).writeFile = vi.fn();
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          dryRun: { report: 'reports/plan.json' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect((mockOutputFileSystem as any).writeFile).not.toHaveBeenCalled();
+        expect(mockCompilation.warnings).toEqual([
+          new Error(
+            `SetFilePermissionsPlugin: Could not write dry run report to ${join('/output/path', 'reports/plan.json')}. Error: EACCES`
+          ),
+        ]);
+      });
+
+      it('should add a warning when the report cannot be written', async () => {
+        (mockOutputFileSystem as any).writeFile = vi.fn(
+          (path: string, data: string, callback: (err?: Error) => void) =>
+            callback(new Error('EACCES'))
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          dryRun: { report: 'report.json' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([
+          new Error(
+            `SetFilePermissionsPlugin: Could not write dry run report to ${join('/output/path', 'report.json')}. Error: EACCES`
+          ),
+        ]);
+      });
+
+      it('should use the failure severity when the report cannot be written', async () => {
+        (mockOutputFileSystem as any).writeFile = vi.fn(
+          (path: string, data: string, callback: (err?: Error) => void) =>
+            callback(new Error('EACCES'))
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          dryRun: { report: 'report.json' },
+          severity: { failure: 'error' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(0);
+        expect(mockCompilation.errors).toEqual([
+          new Error(
+            `SetFilePermissionsPlugin: Could not write dry run report to ${join('/output/path', 'report.json')}. Error: EACCES`
+          ),
+        ]);
+      });
+    });
+
+    describe('verify', () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [{ permissions: 0o755, patterns: '*.js' }],
+        verify: true,
+      };
+
+      const mockStatMode = (mode: number) =>
+        ((mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: Error | null, stats?: any) => void) =>
+            callback(null, { mode })
+        ));
+
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+        };
+      });
+
+      it('should read the mode back after chmod', async () => {
+        const mockStat = mockStatMode(0o100755);
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockStat).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          expect.any(Function)
+        );
+        expect(mockCompilation.warnings).toHaveLength(0);
+      });
+
+      it('should add a warning when the mode does not match', async () => {
+        mockStatMode(0o100644);
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([
+          new Error(
+            `SetFilePermissionsPlugin: Permissions for ${join('/output/path', 'cli.js')} are 0o644 instead of 0o755.`
+          ),
+        ]);
+      });
+
+      it('should add a warning when the mode cannot be read', async () => {
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: Error | null) => void) =>
+            callback(new Error('ENOENT'))
+        );
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([
+          new Error(
+            `SetFilePermissionsPlugin: Could not verify permissions for ${join('/output/path', 'cli.js')}. Error: ENOENT`
+          ),
+        ]);
+      });
+
+      it('should not verify files that could not be changed', async () => {
+        const mockStat = mockStatMode(0o100644);
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) =>
+            callback(new Error('EPERM'))
+        );
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockStat).not.toHaveBeenCalled();
+        expect(mockCompilation.warnings).toHaveLength(1);
+      });
+    });
+
+    describe('strict', () => {
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+        };
+      });
+
+      it('should add an error when chmod fails', async () => {
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) =>
+            callback(new Error('EPERM'))
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          strict: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(0);
+        expect(mockCompilation.errors).toEqual([
+          new Error(
+            `SetFilePermissionsPlugin: Could not set permissions for ${join('/output/path', 'cli.js')}. Error: EPERM`
+          ),
+        ]);
+      });
+
+      it('should add an error when the mode does not match', async () => {
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: Error | null, stats?: any) => void) =>
+            callback(null, { mode: 0o100644 })
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          verify: true,
+          strict: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.errors).toEqual([
+          new Error(
+            `SetFilePermissionsPlugin: Permissions for ${join('/output/path', 'cli.js')} are 0o644 instead of 0o755.`
+          ),
+        ]);
+      });
+    });
+
+    describe('severity', () => {
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+        };
+      });
+
+      it.each([
+        ['error', 1, 0, 0],
+        ['warning', 0, 1, 0],
+        ['info', 0, 0, 1],
+        ['ignore', 0, 0, 0],
+      ] as const)(
+        'should report an unsupported file system as %s',
+        async (severity, errors, warnings, infos) => {
+          delete (mockOutputFileSystem as any).chmod;
+          const plugin = new SetFilePermissionsPlugin({
+            rules: [{ permissions: 0o755, patterns: '*.js' }],
+            severity: { unsupportedFileSystem: severity },
+          });
+          const { runHook } = createTestHelper();
+
+          await runHook(plugin);
+
+          expect(mockCompilation.errors).toHaveLength(errors);
+          expect(mockCompilation.warnings).toHaveLength(warnings);
+          expect(mockLogger.info).toHaveBeenCalledTimes(infos);
+        }
+      );
+
+      it('should report chmod failures with the failure severity', async () => {
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) =>
+            callback(new Error('EPERM'))
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          severity: { failure: 'info' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(0);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          `Could not set permissions for ${join('/output/path', 'cli.js')}. Error: EPERM`
+        );
+      });
+
+      it('should prefer the failure severity over strict', async () => {
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) =>
+            callback(new Error('EPERM'))
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          strict: true,
+          severity: { failure: 'ignore' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.errors).toHaveLength(0);
+        expect(mockCompilation.warnings).toHaveLength(0);
+      });
+
+      it('should not report unmatched rules by default', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o644, patterns: '*.css' }],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(0);
+      });
+
+      it('should report unmatched rules', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: '*.js' },
+            { permissions: 0o644, patterns: '*.css' },
+          ],
+          directories: [{ permissions: 0o755, patterns: 'bin' }],
+          severity: { unmatchedRule: 'warning' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([
+          new Error(
+            'SetFilePermissionsPlugin: Rule at index 1 did not match any file.'
+          ),
+          new Error(
+            'SetFilePermissionsPlugin: Directory rule at index 0 did not match any directory.'
+          ),
+        ]);
+      });
+
+      it('should not report rules that an earlier rule took precedence over', async () => {
+        mockCompilation.assets = { 'cli.js': {} as any };
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: 'cli.js' },
+            { permissions: 0o644, patterns: '**/*' },
+          ],
+          severity: { unmatchedRule: 'warning' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([]);
+      });
+
+      it('should not report rules that a declared mode took precedence over', async () => {
+        mockCompilation.assets = { 'cli.js': {} as any };
+        mockCompilation.assetsInfo = new Map([
+          ['cli.js', { permissions: 0o700 }],
+        ]);
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'cli.js' }],
+          severity: { unmatchedRule: 'warning' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([]);
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o700,
+          expect.any(Function)
+        );
+      });
+
+      it('should not report unmatched rules on rebuilds', async () => {
+        mockCompilation.emittedAssets = new Set();
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          severity: { unmatchedRule: 'error' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+        await runHook(plugin);
+
+        expect(mockCompilation.errors).toHaveLength(0);
+      });
+    });
+
+    describe('logging', () => {
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+          'bin/tool.js': {} as any,
+          'style.css': {} as any,
+        };
+      });
+
+      it('should log each changed file at debug level', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '**/*.js' }],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.getLogger).toHaveBeenCalledWith(
+          'SetFilePermissionsPlugin'
+        );
+        expect(mockLogger.debug).toHaveBeenCalledWith('cli.js: 0o755');
+        expect(mockLogger.debug).toHaveBeenCalledWith('bin/tool.js: 0o755');
+        expect(mockLogger.debug).toHaveBeenCalledTimes(2);
+      });
+
+      it('should log a summary at info level', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: 'cli.js' },
+            { permissions: 0o644, patterns: '**/*' },
+          ],
+          directories: [{ permissions: 0o755, patterns: 'bin' }],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          'Set permissions on 3 files and 1 directory (3 rules)'
+        );
+      });
+
+      it('should not count files that could not be changed', async () => {
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) =>
+            callback(path.endsWith('cli.js') ? undefined : new Error('EPERM'))
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '**/*.js' }],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockLogger.debug).toHaveBeenCalledTimes(1);
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          'Set permissions on 1 file (1 rule)'
+        );
+      });
+    });
+
+    describe('hooks', () => {
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+          'style.css': {} as any,
+        };
+      });
+
+      it('should call resolvePermissions for every file', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+        });
+        const resolvePermissions = vi.fn((data) => data);
+        SetFilePermissionsPlugin.getHooks(
+          mockCompilation as Compilation
+        ).resolvePermissions.tap('Test', resolvePermissions);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(resolvePermissions).toHaveBeenCalledWith({
+          name: 'cli.js',
+          path: join('/output/path', 'cli.js'),
+          type: 'file',
+          rule: 0,
+          mode: 0o755,
+        });
+        expect(resolvePermissions).toHaveBeenCalledWith({
+          name: 'style.css',
+          path: join('/output/path', 'style.css'),
+          type: 'file',
+          rule: null,
+          mode: false,
+        });
+      });
+
+      it('should apply modes returned by resolvePermissions', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+        });
+        SetFilePermissionsPlugin.getHooks(
+          mockCompilation as Compilation
+        ).resolvePermissions.tap('Test', (data) => ({
+          ...data,
+          mode: data.name === 'style.css' ? 0o600 : false,
+        }));
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'style.css'),
+          0o600,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should call beforeChmod and afterChmod around chmod', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+        });
+        const calls: string[] = [];
+        const hooks = SetFilePermissionsPlugin.getHooks(
+          mockCompilation as Compilation
+        );
+        hooks.beforeChmod.tap('Test', ({ name, mode }) => {
+          calls.push(`before ${name} ${mode.toString(8)}`);
+        });
+        hooks.afterChmod.tap('Test', ({ name, mode }) => {
+          calls.push(`after ${name} ${mode.toString(8)}`);
+        });
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) => {
+            calls.push('chmod');
+            callback();
+          }
+        );
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(calls).toEqual([
+          'before cli.js 755',
+          'chmod',
+          'after cli.js 755',
+        ]);
+      });
+
+      it('should not call afterChmod when chmod fails', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+        });
+        const afterChmod = vi.fn();
+        SetFilePermissionsPlugin.getHooks(
+          mockCompilation as Compilation
+        ).afterChmod.tap('Test', afterChmod);
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) =>
+            callback(new Error('EPERM'))
+        );
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(afterChmod).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('asset info', () => {
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+          'main.js': {} as any,
+        };
+        mockCompilation.assetsInfo = new Map([
+          ['cli.js', { permissions: 0o700 }],
+        ]);
+      });
+
+      it('should apply permissions declared in asset info', async () => {
+        const plugin = new SetFilePermissionsPlugin({ rules: [] });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o700,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should accept string permissions in asset info', async () => {
+        mockCompilation.assetsInfo = new Map([
+          ['cli.js', { permissions: 'rwxr-x---' }],
+        ]);
+        const plugin = new SetFilePermissionsPlugin({ rules: [] });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o750,
+          expect.any(Function)
+        );
+      });
+
+      it('should report ambiguous numeric permissions in asset info', async () => {
+        mockCompilation.assetsInfo = new Map([
+          ['cli.js', { permissions: 755 }],
+        ]);
+        const plugin = new SetFilePermissionsPlugin({ rules: [] });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).not.toHaveBeenCalled();
+        expect(mockCompilation.warnings?.[0]?.message).toBe(
+          `SetFilePermissionsPlugin: The "permissions" asset info of cli.js is ambiguous: 755 reads like 0o755, but is 0o1363. Use 0o755 or '755' for 0o755, or set "allowAmbiguousPermissions" to keep 0o1363.`
+        );
+      });
+
+      it('should apply ambiguous permissions in asset info when allowed', async () => {
+        mockCompilation.assetsInfo = new Map([
+          ['cli.js', { permissions: 755 }],
+        ]);
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          allowAmbiguousPermissions: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          755,
+          expect.any(Function)
+        );
+        expect(mockCompilation.warnings).toEqual([]);
+      });
+
+      it('should prefer asset info over rules by default', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o700,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'main.js'),
+          0o755,
+          expect.any(Function)
+        );
+      });
+
+      it('should prefer rules when preferAssetInfo is false', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'cli.js' }],
+          preferAssetInfo: false,
+        });
+        mockCompilation.assetsInfo = new Map([
+          ['cli.js', { permissions: 0o700 }],
+          ['main.js', { permissions: 0o600 }],
+        ]);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'main.js'),
+          0o600,
+          expect.any(Function)
+        );
+      });
+
+      it.each([-1, 0o10000, 1.5, 'abc', 'u+x', true])(
+        'should add a warning for invalid permissions %j',
+        async (permissions) => {
+          mockCompilation.assetsInfo = new Map([['cli.js', { permissions }]]);
+          const plugin = new SetFilePermissionsPlugin({ rules: [] });
+          const { runHook } = createTestHelper();
+
+          await runHook(plugin);
+
+          expect(mockChmod).not.toHaveBeenCalled();
+          expect(mockCompilation.warnings).toEqual([
+            new Error(
+              `SetFilePermissionsPlugin: The "permissions" asset info of cli.js is not a valid mode: ${JSON.stringify(permissions)}.`
+            ),
+          ]);
+        }
+      );
+    });
+
+    describe('magicComments', () => {
+      let program: (ast: unknown, comments: { value: string }[]) => void;
+
+      const createModule = (name: string, chunkFiles: string[]) => ({
+        name,
+        buildInfo: {} as Record<string, any>,
+        chunkFiles,
+        readableIdentifier: () => `./src/${name}.ts`,
+      });
+
+      const parse = (
+        module: ReturnType<typeof createModule>,
+        source: string,
+        comments: string[] = []
+      ) => {
+        parser.state = { module, source };
+        program(
+          {},
+          comments.map((value) => ({ value }))
+        );
+      };
+
+      let parser: any;
+      let modules: ReturnType<typeof createModule>[];
+      let entryModules: Set<unknown>;
+
+      beforeEach(() => {
+        parser = {
+          hooks: {
+            program: {
+              tap: vi.fn((name, fn) => {
+                program = fn;
+              }),
+            },
+          },
+        };
+        const normalModuleFactory = {
+          hooks: {
+            parser: {
+              for: vi.fn(() => ({
+                tap: vi.fn((name, fn) => fn(parser)),
+              })),
+            },
+          },
+        };
+        (mockCompiler.hooks as any).compilation = {
+          tap: vi.fn((name, fn) =>
+            fn(mockCompilation, { normalModuleFactory })
+          ),
+        };
+
+        modules = [];
+        entryModules = new Set();
+        mockCompilation.modules = modules as any;
+        mockCompilation.requestShortener = {} as any;
+        mockCompilation.chunkGraph = {
+          isEntryModule: (module: unknown) => entryModules.has(module),
+          getModuleChunksIterable: (
+            module: ReturnType<typeof createModule>
+          ) => [{ files: new Set(module.chunkFiles) }],
+        } as any;
+        mockCompilation.assets = {
+          'cli.js': {} as any,
+          'cli.css': {} as any,
+          'main.js': {} as any,
+        };
+      });
+
+      it('should not register parser hooks by default', () => {
+        const plugin = new SetFilePermissionsPlugin({ rules: [] });
+
+        plugin.apply(mockCompiler as Compiler);
+
+        expect(
+          (mockCompiler.hooks as any).compilation.tap
+        ).not.toHaveBeenCalled();
+      });
+
+      it('should register a parser hook for JavaScript modules', () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          magicComments: true,
+        });
+
+        plugin.apply(mockCompiler as Compiler);
+
+        expect(parser.hooks.program.tap).toHaveBeenCalledTimes(3);
+      });
+
+      it('should apply the mode declared by a magic comment to chunk files', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          magicComments: true,
+        });
+        const { runHook } = createTestHelper();
+        plugin.apply(mockCompiler as Compiler);
+        const cli = createModule('cli', ['cli.js', 'cli.css']);
+        const main = createModule('main', ['main.js']);
+        modules.push(cli, main);
+        parse(cli, 'run();', [' webpackPermissions: "0750" ']);
+        parse(main, 'run();');
+
+        await runHook(plugin);
+
+        expect(cli.buildInfo.setFilePermissions).toEqual({
+          permissions: '0750',
+          shebang: false,
+        });
+        expect(main.buildInfo.setFilePermissions).toBeUndefined();
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o750,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should make chunk files of entry modules with a shebang executable', async () => {
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: Error | null, stats?: any) => void) =>
+            callback(null, { mode: 0o100644 })
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          magicComments: true,
+        });
+        const { runHook } = createTestHelper();
+        plugin.apply(mockCompiler as Compiler);
+        const cli = createModule('cli', ['cli.js']);
+        const lib = createModule('lib', ['main.js']);
+        modules.push(cli, lib);
+        entryModules.add(cli);
+        parse(cli, '#!/usr/bin/env node\nrun();');
+        parse(lib, '#!/usr/bin/env node\nrun();');
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledTimes(1);
+      });
+
+      it('should add a warning for an invalid magic comment', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          magicComments: true,
+        });
+        const { runHook } = createTestHelper();
+        plugin.apply(mockCompiler as Compiler);
+        const cli = createModule('cli', ['cli.js']);
+        modules.push(cli);
+        parse(cli, 'run();', [' webpackPermissions: "0999" ']);
+
+        await runHook(plugin);
+
+        expect(mockChmod).not.toHaveBeenCalled();
+        expect(mockCompilation.warnings).toEqual([
+          new Error(
+            'SetFilePermissionsPlugin: The "webpackPermissions" comment in ./src/cli.ts is not a valid mode: "0999".'
+          ),
+        ]);
+      });
+
+      it('should read declarations inside concatenated modules', async () => {
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: Error | null, stats?: any) => void) =>
+            callback(null, { mode: 0o100644 })
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          magicComments: true,
+        });
+        const { runHook } = createTestHelper();
+        plugin.apply(mockCompiler as Compiler);
+        const cli = createModule('cli', []);
+        const lib = createModule('lib', []);
+        const main = createModule('main', []);
+        const concatenated = {
+          ...createModule('cli + 1 modules', ['cli.js']),
+          rootModule: cli,
+          modules: [cli, lib],
+        };
+        modules.push(lib, main, concatenated);
+        entryModules.add(concatenated);
+        parse(cli, '#!/usr/bin/env node\nrun();');
+        parse(lib, 'run();', [' webpackPermissions: "0999" ']);
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'cli.js'),
+          0o755,
+          expect.any(Function)
+        );
+        expect(mockCompilation.warnings).toHaveLength(1);
+      });
+
+      describe('with webpack', () => {
+        let context: string;
+
+        const compile = (mode: 'production' | 'development') =>
+          new Promise<Stats>((resolve, reject) =>
+            webpack(
+              {
+                mode,
+                context,
+                entry: './src/index.js',
+                output: { path: join(context, 'dist'), filename: 't.js' },
+                plugins: [
+                  new SetFilePermissionsPlugin({
+                    rules: [],
+                    magicComments: true,
+                  }),
+                ],
+              },
+              (err, stats) => (err || !stats ? reject(err) : resolve(stats))
+            )
+          );
+
+        const modeOf = async (name: string) =>
+          (await stat(join(context, 'dist', name))).mode & 0o7777;
+
+        beforeEach(async () => {
+          context = await mkdtemp(
+            join(tmpdir(), 'permissions-webpack-plugin-')
+          );
+          await mkdir(join(context, 'src'));
+          await writeFile(
+            join(context, 'src/cli.js'),
+            'export const run = () => console.log("run");\n'
+          );
+        });
+
+        afterEach(() => rm(context, { recursive: true, force: true }));
+
+        it.each(['production', 'development'] as const)(
+          'should apply magic comments in %s builds',
+          async (mode) => {
+            await writeFile(
+              join(context, 'src/index.js'),
+              '/* webpackPermissions: "0700" */\nimport { run } from "./cli";\n\nrun();\n'
+            );
+
+            const stats = await compile(mode);
+
+            expect(stats.hasErrors()).toBe(false);
+            expect(await modeOf('t.js')).toBe(0o700);
+          }
+        );
+
+        it.each(['production', 'development'] as const)(
+          'should make entries with a shebang executable in %s builds',
+          async (mode) => {
+            await writeFile(
+              join(context, 'src/index.js'),
+              '#!/usr/bin/env node\nimport { run } from "./cli";\n\nrun();\n'
+            );
+
+            const stats = await compile(mode);
+
+            expect(stats.hasErrors()).toBe(false);
+            expect(await modeOf('t.js')).toBe(0o755);
+          }
+        );
+      });
+    });
+
+    describe('defaultPermissions', () => {
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'bin/cli.js': {} as any,
+          'main.js': {} as any,
+          'main.js.map': {} as any,
+        };
+      });
+
+      it('should apply to files that no rule matches', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'bin/**' }],
+          defaultPermissions: 0o644,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(
+          mockChmod.mock.calls.map(([path, mode]) => [path, mode])
+        ).toEqual([
+          [join('/output/path', 'bin/cli.js'), 0o755],
+          [join('/output/path', 'main.js'), 0o644],
+          [join('/output/path', 'main.js.map'), 0o644],
+        ]);
+      });
+
+      it('should not apply to excluded files', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'bin/**' }],
+          defaultPermissions: { permissions: 'rw-r--r--', exclude: '*.map' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).not.toHaveBeenCalledWith(
+          join('/output/path', 'main.js.map'),
+          expect.anything(),
+          expect.any(Function)
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'main.js'),
+          0o644,
+          expect.any(Function)
+        );
+      });
+
+      it('should not override modes declared in asset info', async () => {
+        mockCompilation.assetsInfo = new Map([
+          ['main.js', { permissions: 0o600 }],
+        ]);
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          defaultPermissions: 0o644,
+          preferAssetInfo: false,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'main.js'),
+          0o600,
+          expect.any(Function)
+        );
+      });
+    });
+
+    describe('matchStrategy', () => {
+      const chmodModes = () =>
+        mockChmod.mock.calls.map(([path, mode]) => [path, mode]);
+
+      beforeEach(() => {
+        mockCompilation.assets = {
+          'bin/cli.js': {} as any,
+          'main.js': {} as any,
+        };
+        (mockOutputFileSystem as any).stat = vi.fn(
+          (path: string, callback: (err: null, stats: any) => void) =>
+            callback(null, { mode: 0o100646 })
+        );
+      });
+
+      it('should not apply rules to excluded files', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: '**/*.js', exclude: 'bin/**' },
+          ],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(chmodModes()).toEqual([
+          [join('/output/path', 'main.js'), 0o755],
+        ]);
+      });
+
+      it('should apply the first matching rule by default', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: 'bin/**' },
+            { permissions: 0o644, patterns: '**/*.js' },
+          ],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(chmodModes()).toEqual([
+          [join('/output/path', 'bin/cli.js'), 0o755],
+          [join('/output/path', 'main.js'), 0o644],
+        ]);
+      });
+
+      it('should apply the last matching rule', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: 'bin/**' },
+            { permissions: 0o644, patterns: '**/*.js' },
+          ],
+          matchStrategy: 'last',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(chmodModes()).toEqual([
+          [join('/output/path', 'bin/cli.js'), 0o644],
+          [join('/output/path', 'main.js'), 0o644],
+        ]);
+      });
+
+      it('should compose relative rules when merging', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { add: 'u+x', patterns: 'bin/**' },
+            { remove: 'o+w', patterns: '**/*.js' },
+          ],
+          matchStrategy: 'merge',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(chmodModes()).toEqual([
+          [join('/output/path', 'bin/cli.js'), 0o744],
+          [join('/output/path', 'main.js'), 0o644],
+        ]);
+      });
+
+      it('should apply relative rules on top of an absolute one when merging', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o600, patterns: '**/*.js' },
+            { add: 'u+x,g+rx', patterns: 'bin/**' },
+          ],
+          matchStrategy: 'merge',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(chmodModes()).toEqual([
+          [join('/output/path', 'bin/cli.js'), 0o750],
+          [join('/output/path', 'main.js'), 0o600],
+        ]);
+        expect(mockOutputFileSystem.stat).not.toHaveBeenCalled();
+      });
+
+      it('should not report rules that only match after the first as unmatched', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: 'bin/**' },
+            { remove: 'o+w', patterns: 'bin/**' },
+          ],
+          matchStrategy: 'merge',
+          severity: { unmatchedRule: 'warning' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([]);
+      });
+
+      it('should not apply directory rules to excluded directories', async () => {
+        mockCompilation.assets = {
+          'bin/cli.js': {} as any,
+          'lib/native/addon.node': {} as any,
+        };
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          directories: [
+            { permissions: 0o750, parentsOf: '**/*', exclude: 'lib/native' },
+          ],
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(chmodModes()).toEqual([
+          [join('/output/path', 'bin'), 0o750],
+          [join('/output/path', 'lib'), 0o750],
+        ]);
+      });
+    });
+
+    describe('concurrency', () => {
+      beforeEach(() => {
+        const assets: Record<string, any> = {};
+        for (let i = 0; i < 10; i++) {
+          assets[`file${i}.js`] = {} as any;
+        }
+        mockCompilation.assets = assets;
+      });
+
+      const trackChmod = (fail?: (path: string) => boolean) => {
+        const inFlight = { current: 0, max: 0 };
+        mockChmod = vi.fn(
+          (path: string, mode: number, callback: (err?: Error) => void) => {
+            inFlight.current++;
+            inFlight.max = Math.max(inFlight.max, inFlight.current);
+            setImmediate(() => {
+              inFlight.current--;
+              callback(fail?.(path) ? new Error('EACCES') : undefined);
+            });
+          }
+        );
+        mockOutputFileSystem.chmod = mockChmod;
+        return inFlight;
+      };
+
+      it('should limit the number of chmod calls in flight', async () => {
+        const inFlight = trackChmod();
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          concurrency: 3,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledTimes(10);
+        expect(inFlight.max).toBe(3);
+      });
+
+      it('should still report failures per file', async () => {
+        trackChmod((path) => /file[13]\.js$/.test(path));
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+          concurrency: 2,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledTimes(10);
+        expect(mockCompilation.warnings?.map(({ message }) => message)).toEqual(
+          [
+            `SetFilePermissionsPlugin: Could not set permissions for ${join('/output/path', 'file1.js')}. Error: EACCES`,
+            `SetFilePermissionsPlugin: Could not set permissions for ${join('/output/path', 'file3.js')}. Error: EACCES`,
+          ]
+        );
+      });
+    });
+
+    describe('multiple compilers', () => {
+      const createCompiler = (name: string, path: string) =>
+        ({
+          ...mockCompiler,
+          name,
+          options: { output: { path } } as WebpackOptionsNormalized,
+          hooks: {
+            afterEmit: { tapAsync: vi.fn() },
+          } as unknown as Compiler['hooks'],
+        }) as Compiler;
+
+      const runCompiler = (compiler: Compiler, assets: string[]) => {
+        const compilation = {
+          ...mockCompilation,
+          compiler,
+          assets: Object.fromEntries(assets.map((name) => [name, {} as any])),
+        } as Compilation;
+        const hookCallback = (compiler.hooks.afterEmit.tapAsync as any).mock
+          .calls[0][1];
+        return new Promise<void>((resolve, reject) =>
+          hookCallback(compilation, (err?: Error) =>
+            err ? reject(err) : resolve()
+          )
+        ).then(() => compilation);
+      };
+
+      let server: Compiler;
+      let cli: Compiler;
+
+      beforeEach(() => {
+        server = createCompiler('server', '/output/server');
+        cli = createCompiler('cli', '/output/cli');
+      });
+
+      it('should apply to every compiler of a MultiCompiler', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '*.js' }],
+        });
+
+        plugin.apply({ compilers: [server, cli] } as MultiCompiler);
+        await runCompiler(server, ['main.js']);
+        await runCompiler(cli, ['cli.js']);
+
+        expect(
+          mockChmod.mock.calls.map(([path, mode]) => [path, mode])
+        ).toEqual([
+          [join('/output/server', 'main.js'), 0o755],
+          [join('/output/cli', 'cli.js'), 0o755],
+        ]);
+      });
+
+      it('should only apply rules to the named compilers', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: '**/*.js', compilers: 'cli' },
+            { permissions: 0o644, patterns: '**/*.js' },
+          ],
+          directories: [
+            { permissions: 0o750, parentsOf: '**/*', compilers: ['server'] },
+          ],
+        });
+
+        plugin.apply({ compilers: [server, cli] } as MultiCompiler);
+        await runCompiler(server, ['lib/main.js']);
+        await runCompiler(cli, ['lib/cli.js']);
+
+        expect(
+          mockChmod.mock.calls.map(([path, mode]) => [path, mode])
+        ).toEqual([
+          [join('/output/server', 'lib/main.js'), 0o644],
+          [join('/output/server', 'lib'), 0o750],
+          [join('/output/cli', 'lib/cli.js'), 0o755],
+        ]);
+      });
+
+      it('should not report rules for other compilers as unmatched', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: 'bin/**', compilers: 'cli' },
+            { permissions: 0o644, patterns: 'server.js', compilers: 'server' },
+          ],
+          severity: { unmatchedRule: 'warning' },
+        });
+
+        plugin.apply({ compilers: [server, cli] } as MultiCompiler);
+        mockCompilation.warnings = [];
+        const serverCompilation = await runCompiler(server, ['server.js']);
+        mockCompilation.warnings = [];
+        const cliCompilation = await runCompiler(cli, ['cli.js']);
+
+        expect(serverCompilation.warnings).toEqual([]);
+        expect(cliCompilation.warnings.map(({ message }) => message)).toEqual([
+          'SetFilePermissionsPlugin: Rule at index 0 did not match any file.',
+        ]);
+      });
+    });
+
+    describe('manifest', () => {
+      let written: Map<string, string>;
+
+      beforeEach(() => {
+        written = new Map();
+        const directories = new Set(['/output/path']);
+        mockCompilation.compiler = mockCompiler as Compiler;
+        mockCompilation.assets = {
+          "bin/it's.js": {} as any,
+          'bin/cli.js': {} as any,
+          'main.js': {} as any,
+        };
+        (mockOutputFileSystem as any).mkdir = vi.fn(
+          (path: string, options: unknown, callback: () => void) => {
+            for (let dir = path; dir !== dirname(dir); dir = dirname(dir)) {
+              directories.add(dir);
+            }
+            callback();
+          }
+        );
+        (mockOutputFileSystem as any).writeFile = vi.fn(
+          (path: string, content: string, callback: (err?: Error) => void) => {
+            if (!directories.has(dirname(path))) {
+              return callback(new Error('ENOENT'));
+            }
+            written.set(path, content);
+            callback();
+          }
+        );
+      });
+
+      it('should write the modes of changed files and directories', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'bin/**' }],
+          directories: [{ permissions: 0o750, patterns: 'bin' }],
+          manifest: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(
+          JSON.parse(
+            written.get(join('/output/path', 'permissions.json')) ?? ''
+          )
+        ).toEqual({
+          bin: '0o750',
+          'bin/cli.js': '0o755',
+          "bin/it's.js": '0o755',
+        });
+        expect(written.size).toBe(1);
+      });
+
+      it('should write an executable restore script', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'bin/**' }],
+          directories: [{ permissions: 0o750, patterns: 'bin' }],
+          manifest: { filename: 'meta/modes.json', script: true },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(written.has(join('/output/path', 'meta/modes.json'))).toBe(true);
+        expect(written.get(join('/output/path', 'fix-permissions.sh'))).toBe(
+          [
+            '#!/bin/sh',
+            '# Restores the permissions set by SetFilePermissionsPlugin.',
+            'set -e',
+            'cd "${1:-$(dirname "$0")/.}"',
+            "chmod 0755 'bin/cli.js'",
+            "chmod 0755 'bin/it'\\''s.js'",
+            "chmod 0750 'bin'",
+            '',
+          ].join('\n')
+        );
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'fix-permissions.sh'),
+          0o755,
+          expect.any(Function)
+        );
+      });
+
+      it('should change to the output path from scripts in subdirectories', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'main.js' }],
+          manifest: { script: 'scripts/deploy/fix.sh' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(
+          written.get(join('/output/path', 'scripts/deploy/fix.sh'))
+        ).toContain('cd "${1:-$(dirname "$0")/../..}"');
+      });
+
+      it('should create the directories of the manifest and the script', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'main.js' }],
+          manifest: {
+            filename: 'meta/permissions.json',
+            script: 'scripts/fix-permissions.sh',
+          },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toHaveLength(0);
+        expect(
+          JSON.parse(
+            written.get(join('/output/path', 'meta/permissions.json')) ?? ''
+          )
+        ).toEqual({ 'main.js': '0o755' });
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'scripts/fix-permissions.sh'),
+          0o755,
+          expect.any(Function)
+        );
+      });
+
+      it('should keep files changed by earlier runs on rebuilds', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '**/*.js' }],
+          manifest: 'modes.json',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+        (mockCompilation as any).emittedAssets = new Set(['main.js']);
+        delete mockCompilation.assets?.['bin/cli.js'];
+        await runHook(plugin);
+
+        expect(
+          JSON.parse(written.get(join('/output/path', 'modes.json')) ?? '')
+        ).toEqual({ "bin/it's.js": '0o755', 'main.js': '0o755' });
+      });
+
+      it('should not list files that could not be changed', async () => {
+        mockChmod.mockImplementation(
+          (path: string, mode: number, callback: (err?: Error) => void) =>
+            callback(path.endsWith('main.js') ? new Error('EPERM') : undefined)
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o644, patterns: '*.js' }],
+          manifest: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(
+          JSON.parse(
+            written.get(join('/output/path', 'permissions.json')) ?? ''
+          )
+        ).toEqual({});
+      });
+    });
+
+    describe('archive', () => {
+      let written: Map<string, Buffer>;
+
+      beforeEach(() => {
+        written = new Map();
+        mockCompilation.compiler = mockCompiler as Compiler;
+        mockCompilation.assets = {
+          'bin/cli.js': {} as any,
+          'main.js': {} as any,
+          'main.js.map': {} as any,
+        };
+        Object.assign(mockOutputFileSystem, {
+          stat: vi.fn(
+            (path: string, callback: (err: null, stats: any) => void) =>
+              callback(null, {
+                mode: path.endsWith('.js') ? 0o100644 : 0o40755,
+              })
+          ),
+          readFile: vi.fn(
+            (path: string, callback: (err: null, content: Buffer) => void) =>
+              callback(null, Buffer.from(path))
+          ),
+          writeFile: vi.fn(
+            (path: string, content: Buffer, callback: () => void) => {
+              written.set(path, content);
+              callback();
+            }
+          ),
+        });
+      });
+
+      it('should pack files with their modes and the owners of their rules', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [
+            { permissions: 0o755, patterns: 'bin/**', owner: 'app', group: 33 },
+          ],
+          directories: [{ permissions: 0o750, patterns: 'bin', owner: 0 }],
+          archive: { filename: 'dist.tar', patterns: '**/*.js', mtime: 1 },
+        });
+        (mockOutputFileSystem as any).chown = vi.fn(
+          (path: string, uid: number, gid: number, callback: () => void) =>
+            callback()
+        );
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(written.get(join('/output/path', 'dist.tar'))).toEqual(
+          createTar([
+            { name: 'bin', type: 'directory', mode: 0o755, mtime: 1, uid: 0 },
+            {
+              name: 'bin/cli.js',
+              type: 'file',
+              mode: 0o644,
+              mtime: 1,
+              uid: 1001,
+              uname: 'app',
+              gid: 33,
+              content: Buffer.from(join('/output/path', 'bin/cli.js')),
+            },
+            {
+              name: 'main.js',
+              type: 'file',
+              mode: 0o644,
+              mtime: 1,
+              content: Buffer.from(join('/output/path', 'main.js')),
+            },
+          ])
+        );
+        expect(mockLogger.info).toHaveBeenCalledWith(
+          'Packed 2 files into dist.tar'
+        );
+      });
+
+      it('should pack the archive after setting permissions', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: '**/*.js' }],
+          archive: 'dist.tar',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod.mock.invocationCallOrder[0]).toBeLessThan(
+          (mockOutputFileSystem.readFile as any).mock.invocationCallOrder[0]
+        );
+      });
+
+      it('should gzip archives ending in .tgz', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          archive: 'dist.tgz',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        const archive = gunzipSync(
+          written.get(join('/output/path', 'dist.tgz')) ?? Buffer.alloc(0)
+        );
+        expect(archive.toString('utf8', 0, 3)).toBe('bin');
+        expect(archive.length).toBe(512 * 9);
+      });
+
+      it('should create the directory of the archive', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          archive: 'artifacts/out.tar',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockOutputFileSystem.mkdir).toHaveBeenCalledWith(
+          join('/output/path', 'artifacts'),
+          { recursive: true },
+          expect.any(Function)
+        );
+        expect(
+          (mockOutputFileSystem.mkdir as any).mock.invocationCallOrder[0]
+        ).toBeLessThan(
+          (mockOutputFileSystem.writeFile as any).mock.invocationCallOrder[0]
+        );
+        expect(written.has(join('/output/path', 'artifacts/out.tar'))).toBe(
+          true
+        );
+      });
+
+      it('should pack all assets on rebuilds', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          archive: { filename: 'dist.tar', patterns: '**/*.js' },
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+        const first = written.get(join('/output/path', 'dist.tar'));
+        (mockCompilation as any).emittedAssets = new Set(['main.js']);
+        await runHook(plugin);
+
+        expect(first?.includes('bin/cli.js')).toBe(true);
+        expect(written.get(join('/output/path', 'dist.tar'))).toEqual(first);
+      });
+
+      it('should report invalid declared modes only once', async () => {
+        mockCompilation.assetsInfo = new Map([
+          ['main.js', { permissions: 'abc' }],
+        ]);
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          archive: 'dist.tar',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockCompilation.warnings).toEqual([
+          new Error(
+            'SetFilePermissionsPlugin: The "permissions" asset info of main.js is not a valid mode: "abc".'
+          ),
+        ]);
+      });
+
+      it('should keep the owners of files that were not emitted again on rebuilds', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [{ permissions: 0o755, patterns: 'bin/**', group: 33 }],
+          archive: { filename: 'dist.tar', patterns: '**/*.js' },
+        });
+        (mockOutputFileSystem as any).chown = vi.fn(
+          (path: string, uid: number, gid: number, callback: () => void) =>
+            callback()
+        );
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+        const first = written.get(join('/output/path', 'dist.tar'));
+        (mockCompilation as any).emittedAssets = new Set(['main.js']);
+        await runHook(plugin);
+
+        expect(written.get(join('/output/path', 'dist.tar'))).toEqual(first);
+      });
+
+      it('should not pack files in dry run mode', async () => {
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          archive: 'dist.tar',
+          dryRun: true,
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockOutputFileSystem.writeFile).not.toHaveBeenCalled();
+      });
+
+      it('should report files that could not be packed', async () => {
+        (mockOutputFileSystem as any).readFile = vi.fn(
+          (path: string, callback: (err: Error) => void) =>
+            callback(new Error('EACCES'))
+        );
+        const plugin = new SetFilePermissionsPlugin({
+          rules: [],
+          archive: 'dist.tar',
+        });
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(written.size).toBe(0);
+        expect(mockCompilation.warnings?.[0]?.message).toBe(
+          `SetFilePermissionsPlugin: Could not write archive ${join('/output/path', 'dist.tar')}. Error: EACCES`
+        );
+      });
+    });
+
+    it('should handle errors during Promise.all execution', async () => {
+      const options: SetFilePermissionsPluginOptions = {
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: 'script.js',
+          },
+        ],
+      };
+
+      mockCompilation.assets = {
+        'script.js': {} as any,
+      };
+
+      mockChmod = vi.fn(() => {
+        throw new Error('Unexpected error');
+      });
       mockOutputFileSystem.chmod = mockChmod;
 
       const plugin = new SetFilePermissionsPlugin(options);
@@ -821,6 +3923,39 @@ describe('SetFilePermissionsPlugin', () => {
       );
     });
 
+    it.each([
+      ['rwxr-xr-x', 0o755],
+      ['0755', 0o755],
+      ['u=rw,go=r', 0o644],
+    ])(
+      'should set permissions given as string %s',
+      async (permissions, expected) => {
+        const options: SetFilePermissionsPluginOptions = {
+          rules: [
+            {
+              permissions,
+              patterns: 'script.js',
+            },
+          ],
+        };
+
+        mockCompilation.assets = {
+          'script.js': {} as any,
+        };
+
+        const plugin = new SetFilePermissionsPlugin(options);
+        const { runHook } = createTestHelper();
+
+        await runHook(plugin);
+
+        expect(mockChmod).toHaveBeenCalledWith(
+          join('/output/path', 'script.js'),
+          expected,
+          expect.any(Function)
+        );
+      }
+    );
+
     it('should handle decimal permission values', async () => {
       const options: SetFilePermissionsPluginOptions = {
         rules: [
@@ -847,4 +3982,116 @@ describe('SetFilePermissionsPlugin', () => {
       );
     });
   });
+
+  describe('applyToFiles', () => {
+    const applyToFiles = (
+      plugin: SetFilePermissionsPlugin,
+      files: string[],
+      compilerName?: string
+    ) => {
+      const target = {
+        outputPath: '/output/path',
+        outputFileSystem: mockOutputFileSystem as OutputFileSystem,
+        files,
+        compilerName,
+        warnings: [] as Error[],
+        errors: [] as Error[],
+        logger: mockLogger,
+      };
+      return plugin.applyToFiles(target).then(() => target);
+    };
+
+    it('should apply the rules to the given files', async () => {
+      const plugin = new SetFilePermissionsPlugin({
+        rules: [{ permissions: 0o755, patterns: 'bin/*' }],
+        directories: [{ permissions: 0o750, parentsOf: 'bin/*' }],
+        defaultPermissions: 0o644,
+      });
+
+      await applyToFiles(plugin, ['bin/cli', 'readme.md']);
+
+      expect(mockChmod.mock.calls.map(([path, mode]) => [path, mode])).toEqual([
+        [join('/output/path', 'bin/cli'), 0o755],
+        [join('/output/path', 'readme.md'), 0o644],
+        [join('/output/path', 'bin'), 0o750],
+      ]);
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'Set permissions on 2 files and 1 directory (3 rules)'
+      );
+    });
+
+    it('should only apply rules for the given compiler', async () => {
+      const plugin = new SetFilePermissionsPlugin({
+        rules: [
+          { permissions: 0o700, patterns: '*.js', compilers: 'server' },
+          { permissions: 0o755, patterns: '*.js', compilers: 'cli' },
+        ],
+      });
+
+      await applyToFiles(plugin, ['main.js'], 'cli');
+
+      expect(mockChmod).toHaveBeenCalledTimes(1);
+      expect(mockChmod.mock.calls[0][1]).toBe(0o755);
+    });
+
+    it('should not match rules that need a compilation', async () => {
+      const pattern = vi.fn(() => false);
+      const plugin = new SetFilePermissionsPlugin({
+        rules: [
+          { permissions: 0o700, entries: 'main' },
+          { permissions: 0o755, patterns: pattern },
+        ],
+      });
+
+      await applyToFiles(plugin, ['main.js']);
+
+      expect(mockChmod).not.toHaveBeenCalled();
+      expect(pattern).toHaveBeenCalledWith('main.js', {}, undefined);
+    });
+
+    it('should read shebangs from the files', async () => {
+      mockOutputFileSystem.readFile = vi.fn(
+        (path: string, callback: (err: null, content: Buffer) => void) =>
+          callback(
+            null,
+            Buffer.from(path.endsWith('cli.js') ? '#!/usr/bin/env node' : '')
+          )
+      ) as unknown as OutputFileSystem['readFile'];
+      const plugin = new SetFilePermissionsPlugin({
+        rules: [],
+        shebang: 0o755,
+      });
+
+      await applyToFiles(plugin, ['cli.js', 'main.js']);
+
+      expect(mockChmod).toHaveBeenCalledTimes(1);
+      expect(mockChmod).toHaveBeenCalledWith(
+        join('/output/path', 'cli.js'),
+        0o755,
+        expect.any(Function)
+      );
+    });
+
+    it('should report problems to the given arrays', async () => {
+      mockChmod.mockImplementation(
+        (path: string, mode: number, callback: (err?: Error) => void) =>
+          callback(new Error('EPERM'))
+      );
+      const plugin = new SetFilePermissionsPlugin({
+        rules: [{ permissions: 0o755, patterns: '*.js' }],
+        strict: true,
+        severity: { unmatchedRule: 'warning' },
+        directories: [{ permissions: 0o750, patterns: 'lib' }],
+      });
+
+      const { warnings, errors } = await applyToFiles(plugin, ['main.js']);
+
+      expect(warnings.map(({ message }) => message)).toEqual([
+        'SetFilePermissionsPlugin: Directory rule at index 0 did not match any directory.',
+      ]);
+      expect(errors.map(({ message }) => message)).toEqual([
+        `SetFilePermissionsPlugin: Could not set permissions for ${join('/output/path', 'main.js')}. Error: EPERM`,
+      ]);
+    });
+  });
 });
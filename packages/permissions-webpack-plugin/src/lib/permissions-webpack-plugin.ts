@@ -1,22 +1,603 @@
-import type { chmod } from 'node:fs';
-import { join } from 'node:path';
+import type { chmod, chown } from 'node:fs';
+import { dirname, join, posix } from 'node:path';
+import { gzip } from 'node:zlib';
+import { validate } from 'schema-utils';
 import type {
+  AssetInfo,
+  Compilation,
   Compiler,
+  Module,
+  MultiCompiler,
   OutputFileSystem,
   WebpackPluginInstance,
+  javascript,
 } from 'webpack';
+import {
+  createMatcher,
+  type Matcher,
+  type MatcherOptions,
+  type Pattern,
+} from './matcher.js';
+import { createChunkPattern, type ChunkSelectorOptions } from './chunks.js';
+import {
+  formatMode,
+  isAmbiguousMode,
+  isRelativeExpression,
+  parsePermissionBits,
+  parsePermissions,
+  type Permissions,
+} from './mode.js';
+import { parentDirectories, scanOutputPath, type ScanOptions } from './scan.js';
+import { schema } from './schema.js';
+import {
+  BUILD_INFO_KEY,
+  readMagicComment,
+  type SourcePermissions,
+} from './magic-comments.js';
+import {
+  createHooks,
+  getCompilationHooks,
+  type SetFilePermissionsPluginHooks,
+} from './hooks.js';
+import { createOwnershipResolver, type Owner } from './ownership.js';
+import { createLimit, type Limit } from './limit.js';
+import { createTar, type TarEntry } from './tar.js';
 
-interface SetFilePermissionsRules<T> {
-  permissions: number;
-  patterns: T;
+interface PermissionsOptions {
+  /**
+   * Absolute mode to set. Cannot be combined with `add` or `remove`.
+   */
+  permissions?: Permissions;
+  /**
+   * Bits to set on top of the current mode of the file, e.g. `'u+x,g+x'`.
+   */
+  add?: Permissions;
+  /**
+   * Bits to clear from the current mode of the file, e.g. `'o+w'`.
+   */
+  remove?: Permissions;
+  /**
+   * User to own matched files, as a uid or a name from `/etc/passwd`.
+   */
+  owner?: Owner;
+  /**
+   * Group to own matched files, as a gid or a name from `/etc/group`.
+   */
+  group?: Owner;
+}
+
+interface SetFilePermissionsRules<T>
+  extends PermissionsOptions,
+    MatcherOptions,
+    ChunkSelectorOptions {
+  patterns?: T;
+  /**
+   * Assets the rule should not apply to, even if `patterns` match them.
+   */
+  exclude?: T;
+  /**
+   * Names of the compilers the rule applies to, for configurations that
+   * export an array. Defaults to all compilers.
+   */
+  compilers?: string | string[];
+}
+
+interface SetDirectoryPermissionsRules<T>
+  extends PermissionsOptions,
+    MatcherOptions {
+  /**
+   * Directory paths relative to `output.path`, e.g. `'bin'` or `'lib/**'`.
+   */
+  patterns?: T;
+  /**
+   * Asset patterns whose parent directories (up to `output.path`) should
+   * match as well.
+   */
+  parentsOf?: T;
+  /**
+   * Directories the rule should not apply to.
+   */
+  exclude?: T;
+  /**
+   * Names of the compilers the rule applies to. Defaults to all compilers.
+   */
+  compilers?: string | string[];
+}
+
+interface ModeChange {
+  permissions?: number;
+  add: number;
+  remove: number;
+  owner?: Owner;
+  group?: Owner;
+}
+
+interface CompiledRule extends ModeChange {
+  matches: Matcher;
+  compilers?: Set<string>;
+}
+
+interface CompiledDirectoryRule extends CompiledRule {
+  matchesChild: Matcher;
+  excludes: Matcher;
+}
+
+/**
+ * Which of several matching rules applies: the first, the last, or all of
+ * them merged in order.
+ */
+type MatchStrategy = 'first' | 'last' | 'merge';
+
+interface PlannedChange {
+  /**
+   * Path relative to `output.path`.
+   */
+  name: string;
+  type: 'file' | 'directory';
+  /**
+   * Index of the matching rule, `'assetInfo'` or `'source'` for a mode
+   * declared in the asset info or the source, or `'shebang'` or `'default'`
+   * for the fallbacks.
+   */
+  rule?: number | 'assetInfo' | 'source' | 'shebang' | 'default';
+  /**
+   * Indices of all rules that match, including rules that the match strategy
+   * or a declared mode took precedence over.
+   */
+  matched?: number[];
+  change?: ModeChange;
+}
+
+interface AppliedChange extends PlannedChange {
+  mode: number;
+}
+
+interface DefaultPermissionsOptions {
+  permissions: Permissions;
+  /**
+   * Files to leave unchanged, e.g. `'**\/*.map'`.
+   */
+  exclude?: Pattern | Pattern[];
+}
+
+interface DryRunOptions {
+  /**
+   * File to write a JSON report of the planned changes to, relative to
+   * `output.path`.
+   */
+  report?: string;
+}
+
+interface ArchiveOptions {
+  /**
+   * Archive to write, relative to `output.path`. Names ending in `.gz` or
+   * `.tgz` are compressed with gzip.
+   */
+  filename: string;
+  /**
+   * Files to pack. Defaults to all files the plugin processed.
+   */
+  patterns?: Pattern | Pattern[];
+  /**
+   * Modification time recorded for every entry, in seconds since the epoch.
+   * Defaults to `0`.
+   */
+  mtime?: number;
+}
+
+interface ManifestOptions {
+  /**
+   * JSON file to write, relative to `output.path`. Defaults to
+   * `'permissions.json'`.
+   */
+  filename?: string;
+  /**
+   * Also write a POSIX shell script that restores the modes, relative to
+   * `output.path`. `true` writes `fix-permissions.sh`.
+   */
+  script?: boolean | string;
+}
+
+interface CompiledManifest {
+  filename: string;
+  script?: string;
+}
+
+interface CompiledArchive {
+  filename: string;
+  matches: Matcher;
+  mtime: number;
+  gzip: boolean;
+}
+
+/**
+ * How a problem is reported: as a compilation error or warning, as an info
+ * message of the webpack logger, or not at all.
+ */
+type Severity = 'error' | 'warning' | 'info' | 'ignore';
+
+interface SeverityOptions {
+  /**
+   * The output file system lacks `chmod`, `chown` or `readdir`. Defaults to
+   * `'warning'`.
+   */
+  unsupportedFileSystem?: Severity;
+  /**
+   * A file could not be read, changed or verified. Defaults to `'error'` in
+   * strict mode and `'warning'` otherwise.
+   */
+  failure?: Severity;
+  /**
+   * A rule did not match any file or directory. Defaults to `'ignore'`.
+   */
+  unmatchedRule?: Severity;
+}
+
+type PermissionsFileSystem = OutputFileSystem & {
+  chmod: typeof chmod;
+  chown?: typeof chown;
+  open?: (
+    path: string,
+    flags: string,
+    callback: (err: NodeJS.ErrnoException | null, fd: number) => void
+  ) => void;
+  read?: (
+    fd: number,
+    buffer: Buffer,
+    offset: number,
+    length: number,
+    position: number,
+    callback: (err: NodeJS.ErrnoException | null, bytesRead: number) => void
+  ) => void;
+  close?: (fd: number, callback: () => void) => void;
+};
+
+/**
+ * Receives the problems and the summary of a run: the warnings, errors and
+ * logger of a compilation, or their counterparts outside of webpack.
+ */
+export interface PermissionsReporter {
+  warnings: Error[];
+  errors: Error[];
+  logger: {
+    debug: (message: string) => void;
+    info: (message: string) => void;
+  };
+}
+
+export interface ApplyToFilesOptions extends PermissionsReporter {
+  /**
+   * Directory the files are relative to.
+   */
+  outputPath: string;
+  outputFileSystem: OutputFileSystem;
+  /**
+   * Paths relative to `outputPath`, using forward slashes.
+   */
+  files: string[];
+  /**
+   * Compiler name for rules limited with `compilers`.
+   */
+  compilerName?: string;
+}
+
+/**
+ * The files the rules are applied to, with or without a compilation.
+ */
+interface Run extends PermissionsReporter {
+  outputPath: string;
+  outputFileSystem: PermissionsFileSystem;
+  compilerName?: string;
+  compilation?: Compilation;
+  hooks: SetFilePermissionsPluginHooks;
+  /**
+   * JavaScript files known to start with a shebang.
+   */
+  shebangFiles: Set<string>;
 }
 
 export interface SetFilePermissionsPluginOptions {
-  rules: SetFilePermissionsRules<string | RegExp | (string | RegExp)[]>[];
+  rules: SetFilePermissionsRules<Pattern | Pattern[]>[];
+  /**
+   * Accept numeric permissions whose decimal digits look like an octal mode,
+   * e.g. `755` instead of `0o755`, and use them as they are. Applies to
+   * rules, options and the `permissions` asset info.
+   */
+  allowAmbiguousPermissions?: boolean;
+  /**
+   * Make emitted JavaScript assets whose content starts with a shebang (`#!`)
+   * executable when no rule matches them. `true` adds the execute bits to the
+   * current mode (`'a+x'`), any other value is used as an absolute mode.
+   */
+  shebang?: boolean | Permissions;
+  /**
+   * Mode for files that no rule matches, optionally with patterns of files
+   * to leave unchanged.
+   */
+  defaultPermissions?: Permissions | DefaultPermissionsOptions;
+  /**
+   * Whether a mode declared by other plugins in the `permissions` asset info,
+   * or by a magic comment, takes precedence over matching rules. Defaults to
+   * `true`; when `false`, declared modes are only used for assets that no
+   * rule matches.
+   */
+  preferAssetInfo?: boolean;
+  /**
+   * Let modules declare the mode of their chunk files with a
+   * `/* webpackPermissions: "0755" *\/` comment. Entry modules whose source
+   * starts with a `#!` banner get the `shebang` mode, or `'a+x'`.
+   */
+  magicComments?: boolean;
+  /**
+   * Which rule applies when several match a file or directory: `'first'`
+   * (default), `'last'`, or `'merge'` to apply all of them in order, so that
+   * relative rules compose.
+   */
+  matchStrategy?: MatchStrategy;
+  /**
+   * Rules for directories under `output.path` that contain emitted assets.
+   */
+  directories?: SetDirectoryPermissionsRules<Pattern | Pattern[]>[];
+  /**
+   * Also apply the rules to files in `output.path` that webpack did not emit,
+   * e.g. files written by other tools during the build.
+   */
+  scan?: boolean | ScanOptions;
+  /**
+   * On watch rebuilds, only process assets emitted by the current
+   * compilation. Set to `false` to process all assets on every rebuild.
+   * Defaults to `true`.
+   */
+  incremental?: boolean;
+  /**
+   * Log the mode every file would get instead of changing it, and optionally
+   * write the plan as a JSON report.
+   */
+  dryRun?: boolean | DryRunOptions;
+  /**
+   * Pack files into a tar archive in `output.path` after their permissions
+   * were set, recording the mode and owner of every entry.
+   */
+  archive?: string | ArchiveOptions;
+  /**
+   * Write a JSON manifest of the mode of every file and directory the plugin
+   * changed, and optionally a shell script that restores them.
+   */
+  manifest?: boolean | string | ManifestOptions;
+  /**
+   * Read the mode of each file back after changing it and report files whose
+   * mode differs from the requested one.
+   */
+  verify?: boolean;
+  /**
+   * Maximum number of files and directories processed at the same time,
+   * including scanning `output.path`. Defaults to 16.
+   */
+  concurrency?: number;
+  /**
+   * Report files that could not be changed or verified as compilation errors
+   * instead of warnings, failing the build.
+   */
+  strict?: boolean;
+  /**
+   * How problems are reported, per situation.
+   */
+  severity?: SeverityOptions;
+}
+
+const JAVASCRIPT_MODULE_TYPES = [
+  'javascript/auto',
+  'javascript/dynamic',
+  'javascript/esm',
+];
+
+const ambiguousModeMessage = (subject: string, permissions: number) =>
+  `${subject} is ambiguous: ${permissions} reads like 0o${permissions}, but is ${formatMode(permissions)}. Use 0o${permissions} or '${permissions}' for 0o${permissions}, or set "allowAmbiguousPermissions" to keep ${formatMode(permissions)}.`;
+
+/**
+ * Adds the execute bits, like `chmod a+x`.
+ */
+const EXECUTABLE: ModeChange = { add: 0o111, remove: 0 };
+
+const JAVASCRIPT_FILE = /\.[cm]?js(?:\?.*)?$/i;
+
+/**
+ * The module that `ModuleConcatenationPlugin` creates from several modules
+ * in production builds. Only it belongs to chunks, not the modules inside.
+ */
+interface ConcatenatedModule extends Module {
+  rootModule: Module;
+  modules: Module[];
 }
 
+const isConcatenatedModule = (module: Module): module is ConcatenatedModule =>
+  'rootModule' in module &&
+  Array.isArray((module as Partial<ConcatenatedModule>).modules);
+
+const hasShebang = (content: string | Buffer) =>
+  typeof content === 'string'
+    ? content.startsWith('#!')
+    : content.subarray(0, 2).toString() === '#!';
+
+/**
+ * Reads the first two bytes of a file, or the whole file on file systems
+ * without `open` and `read`.
+ */
+const readHead = (fs: PermissionsFileSystem, path: string) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const { open, read, close } = fs;
+    if (!open || !read || !close) {
+      fs.readFile(path, (err, content) =>
+        err || !content ? reject(err) : resolve(Buffer.from(content))
+      );
+      return;
+    }
+    open.call(fs, path, 'r', (err, fd) => {
+      if (err) {
+        return reject(err);
+      }
+      const buffer = Buffer.alloc(2);
+      read.call(fs, fd, buffer, 0, 2, 0, (err, bytesRead) =>
+        close.call(fs, fd, () =>
+          err ? reject(err) : resolve(buffer.subarray(0, bytesRead))
+        )
+      );
+    });
+  });
+
+/**
+ * Writes a file to the output file system, creating its directory first.
+ */
+const writeOutputFile = (
+  fs: PermissionsFileSystem,
+  path: string,
+  content: string | Buffer
+) =>
+  new Promise<void>((resolve, reject) =>
+    fs.mkdir(dirname(path), { recursive: true }, (err) =>
+      err
+        ? reject(err)
+        : fs.writeFile(path, content, (err) => (err ? reject(err) : resolve()))
+    )
+  );
+
+/**
+ * Composes mode changes in order. An absolute mode replaces everything
+ * before it, relative changes apply on top, and the last owner and group
+ * win.
+ */
+const mergeModeChanges = (changes: ModeChange[]): ModeChange =>
+  changes.reduce<ModeChange>(
+    (merged, change) => {
+      const permissions =
+        change.permissions ??
+        (typeof merged.permissions === 'undefined'
+          ? undefined
+          : (merged.permissions & ~change.remove) | change.add);
+      return {
+        permissions,
+        add:
+          typeof permissions === 'undefined'
+            ? (merged.add & ~change.remove) | change.add
+            : 0,
+        remove:
+          typeof permissions === 'undefined'
+            ? (merged.remove & ~change.add) | change.remove
+            : 0,
+        owner: change.owner ?? merged.owner,
+        group: change.group ?? merged.group,
+      };
+    },
+    { add: 0, remove: 0 }
+  );
+
+const normalizePath = (path: string): string =>
+  path
+    .split(/[\\/]+/)
+    .filter((segment) => segment && segment !== '.')
+    .join('/');
+
+const quoteShellArgument = (value: string): string =>
+  `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Creates a POSIX shell script that restores the given modes. It changes to
+ * the directory given as its first argument, or to the output path it was
+ * written to, and changes files before directories.
+ */
+const createRestoreScript = (
+  scriptName: string,
+  changes: AppliedChange[]
+): string => {
+  const outputPath =
+    posix.relative(posix.join('/', posix.dirname(scriptName)), '/') || '.';
+  const depth = (name: string) => name.split('/').length;
+  const ordered = [...changes].sort(
+    (a, b) =>
+      Number(a.type === 'directory') - Number(b.type === 'directory') ||
+      (a.type === 'directory' ? depth(b.name) - depth(a.name) : 0) ||
+      (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+  );
+  return [
+    '#!/bin/sh',
+    `# Restores the permissions set by ${SetFilePermissionsPlugin.name}.`,
+    'set -e',
+    `cd "\${1:-$(dirname "$0")/${outputPath}}"`,
+    ...ordered.map(
+      ({ name, mode }) =>
+        `chmod ${mode.toString(8).padStart(4, '0')} ${quoteShellArgument(name)}`
+    ),
+    '',
+  ].join('\n');
+};
+
+const compileCompilers = (names?: string | string[]) =>
+  typeof names === 'undefined'
+    ? undefined
+    : new Set(([] as string[]).concat(names));
+
+/**
+ * Whether a rule applies to the compiler of a run, based on the compiler
+ * `name`.
+ */
+const appliesTo = (rule: CompiledRule, { compilerName }: Run): boolean =>
+  !rule.compilers ||
+  (typeof compilerName === 'string' && rule.compilers.has(compilerName));
+
+const pluralize = (count: number, singular: string, plural = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+/**
+ * Summarizes applied changes, e.g. "Set permissions on 12 files (3 rules)".
+ */
+const summarize = (changed: PlannedChange[]): string => {
+  const files = changed.filter(({ type }) => type === 'file').length;
+  const directories = changed.length - files;
+  const rules = new Set(changed.map(({ type, rule }) => `${type}:${rule}`));
+  const targets = [pluralize(files, 'file')];
+  if (directories > 0) {
+    targets.push(pluralize(directories, 'directory', 'directories'));
+  }
+  return `Set permissions on ${targets.join(' and ')} (${pluralize(rules.size, 'rule')})`;
+};
+
+export type {
+  ChmodData,
+  ResolvePermissionsData,
+  SetFilePermissionsPluginHooks,
+} from './hooks.js';
+
 export class SetFilePermissionsPlugin implements WebpackPluginInstance {
-  #rules: SetFilePermissionsRules<(string | RegExp)[]>[];
+  /**
+   * Returns the hooks of the given compilation, for other plugins to change
+   * the resolved modes or react to changes.
+   */
+  static getHooks(compilation: Compilation): SetFilePermissionsPluginHooks {
+    return getCompilationHooks(compilation);
+  }
+
+  #rules: CompiledRule[];
+  #directoryRules: CompiledDirectoryRule[];
+  #shebang?: ModeChange;
+  #default?: CompiledRule;
+  #matchStrategy: MatchStrategy;
+  #shebangAssets = new WeakMap<Compilation, Set<string>>();
+  #resolveOwnership = createOwnershipResolver();
+  #changesOwnership: boolean;
+  #scan?: ScanOptions;
+  #archive?: CompiledArchive;
+  #manifest?: CompiledManifest;
+  #manifests = new WeakMap<Compiler, Map<string, AppliedChange>>();
+  #archivePlans = new WeakMap<Compiler, Map<string, PlannedChange>>();
+  #incremental: boolean;
+  #processedCompilers = new WeakSet<Compiler>();
+  #dryRun?: DryRunOptions;
+  #verify: boolean;
+  #limit: Limit;
+  #preferAssetInfo: boolean;
+  #allowAmbiguousPermissions: boolean;
+  #magicComments: boolean;
+  #severity: Required<SeverityOptions>;
 
   constructor(options: SetFilePermissionsPluginOptions) {
     if (!options || typeof options !== 'object' || options === null) {
@@ -24,106 +605,1197 @@ export class SetFilePermissionsPlugin implements WebpackPluginInstance {
         `${SetFilePermissionsPlugin.name}: Options object is required.`
       );
     }
-    if (!Array.isArray(options.rules)) {
-      throw new Error(
-        `${SetFilePermissionsPlugin.name}: The "rules" option must be an array.`
-      );
-    }
+    validate(schema, options, {
+      name: SetFilePermissionsPlugin.name,
+      baseDataPath: 'options',
+    });
+
+    this.#allowAmbiguousPermissions =
+      options.allowAmbiguousPermissions ?? false;
+    this.#matchStrategy = options.matchStrategy ?? 'first';
 
     this.#rules = options.rules.map((rule, index) => {
-      if (typeof rule !== 'object' || rule === null) {
-        throw new Error(
-          `${SetFilePermissionsPlugin.name}: Rule at index ${index} must be an object.`
-        );
-      }
-      if (typeof rule.permissions === 'undefined') {
+      const label = `rule at index ${index}`;
+      this.#validateRule(rule, label);
+      const selectsChunks =
+        typeof rule.entries !== 'undefined' ||
+        typeof rule.chunks !== 'undefined';
+      if (typeof rule.patterns === 'undefined' && !selectsChunks) {
         throw new Error(
-          `${SetFilePermissionsPlugin.name}: "permissions" option is required for rule at index ${index}.`
+          `${SetFilePermissionsPlugin.name}: "patterns", "entries" or "chunks" option is required for ${label}.`
         );
       }
-      if (typeof rule.patterns === 'undefined') {
-        throw new Error(
-          `${SetFilePermissionsPlugin.name}: "patterns" option is required for rule at index ${index}.`
+      const patterns = ([] as Pattern[]).concat(rule.patterns ?? []);
+      if (selectsChunks) {
+        patterns.push(
+          createChunkPattern({
+            entries: rule.entries,
+            chunks: rule.chunks,
+            includeAuxiliaryFiles: rule.includeAuxiliaryFiles,
+            includeAsyncChunks: rule.includeAsyncChunks,
+          })
         );
       }
+      return {
+        ...this.#compileModeChange(rule, label),
+        matches: createMatcher(
+          patterns,
+          { literal: rule.literal, dot: rule.dot },
+          ([] as Pattern[]).concat(rule.exclude ?? [])
+        ),
+        compilers: compileCompilers(rule.compilers),
+      };
+    });
+
+    this.#directoryRules = (options.directories ?? []).map((rule, index) => {
+      const label = `directory rule at index ${index}`;
+      this.#validateRule(rule, label);
       if (
-        typeof rule.patterns !== 'string' &&
-        !(rule.patterns instanceof RegExp) &&
-        !Array.isArray(rule.patterns)
+        typeof rule.patterns === 'undefined' &&
+        typeof rule.parentsOf === 'undefined'
       ) {
         throw new Error(
-          `${SetFilePermissionsPlugin.name}: "patterns" option for rule at index ${index} must be a string, RegExp, or an array of strings/RegExps.`
+          `${SetFilePermissionsPlugin.name}: "patterns" or "parentsOf" option is required for ${label}.`
         );
       }
+      const matcherOptions = { literal: rule.literal, dot: rule.dot };
+      const exclude = ([] as Pattern[]).concat(rule.exclude ?? []);
       return {
-        permissions: rule.permissions,
-        patterns: Array.isArray(rule.patterns)
-          ? rule.patterns
-          : [rule.patterns],
+        ...this.#compileModeChange(rule, label),
+        matches: createMatcher(
+          ([] as Pattern[]).concat(rule.patterns ?? []),
+          matcherOptions,
+          exclude
+        ),
+        matchesChild: createMatcher(
+          ([] as Pattern[]).concat(rule.parentsOf ?? []),
+          matcherOptions
+        ),
+        excludes: createMatcher(exclude, matcherOptions),
+        compilers: compileCompilers(rule.compilers),
       };
     });
+
+    this.#changesOwnership = [...this.#rules, ...this.#directoryRules].some(
+      (rule) =>
+        typeof rule.owner !== 'undefined' || typeof rule.group !== 'undefined'
+    );
+
+    this.#incremental = options.incremental ?? true;
+    this.#verify = options.verify ?? false;
+    this.#limit = createLimit(options.concurrency ?? 16);
+    this.#preferAssetInfo = options.preferAssetInfo ?? true;
+    this.#magicComments = options.magicComments ?? false;
+
+    this.#severity = {
+      unsupportedFileSystem: 'warning',
+      failure: options.strict ? 'error' : 'warning',
+      unmatchedRule: 'ignore',
+      ...options.severity,
+    };
+
+    if (options.dryRun) {
+      this.#dryRun = options.dryRun === true ? {} : options.dryRun;
+    }
+    if (options.scan) {
+      this.#scan = options.scan === true ? {} : options.scan;
+    }
+    if (options.manifest) {
+      const { filename = 'permissions.json', script = false } =
+        typeof options.manifest === 'object'
+          ? options.manifest
+          : {
+              filename:
+                typeof options.manifest === 'string'
+                  ? options.manifest
+                  : undefined,
+            };
+      this.#manifest = {
+        filename: normalizePath(filename),
+        script: script
+          ? normalizePath(script === true ? 'fix-permissions.sh' : script)
+          : undefined,
+      };
+    }
+    if (typeof options.archive !== 'undefined') {
+      const {
+        filename,
+        patterns,
+        mtime = 0,
+      } = typeof options.archive === 'string'
+        ? { filename: options.archive }
+        : options.archive;
+      this.#archive = {
+        filename: normalizePath(filename),
+        matches: patterns
+          ? createMatcher(([] as Pattern[]).concat(patterns))
+          : () => true,
+        mtime,
+        gzip: /\.t?gz$/.test(filename),
+      };
+    }
+
+    if (options.shebang === true) {
+      this.#shebang = EXECUTABLE;
+    } else if (
+      typeof options.shebang !== 'undefined' &&
+      options.shebang !== false
+    ) {
+      this.#shebang = {
+        permissions: this.#parsePermissions(
+          options.shebang,
+          'The "shebang" option'
+        ),
+        add: 0,
+        remove: 0,
+      };
+    }
+
+    if (typeof options.defaultPermissions !== 'undefined') {
+      const { permissions, exclude = [] } =
+        typeof options.defaultPermissions === 'object'
+          ? options.defaultPermissions
+          : { permissions: options.defaultPermissions };
+      const excludes = createMatcher(([] as Pattern[]).concat(exclude));
+      this.#default = {
+        permissions: this.#parsePermissions(
+          permissions,
+          'The "defaultPermissions" option'
+        ),
+        add: 0,
+        remove: 0,
+        matches: (assetName, assetInfo, compilation) =>
+          !excludes(assetName, assetInfo, compilation),
+      };
+    }
   }
 
-  public apply(compiler: Compiler): void {
-    compiler.hooks.afterEmit.tapAsync(
-      SetFilePermissionsPlugin.name,
-      (compilation, callback) => {
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        const outputPath = compiler.options.output.path!;
-        const outputFileSystem = compiler.outputFileSystem as
-          | (OutputFileSystem & {
-              chmod: typeof chmod;
-            })
-          | null;
+  #validateRule(rule: PermissionsOptions, label: string) {
+    const isRelative =
+      typeof rule.add !== 'undefined' || typeof rule.remove !== 'undefined';
+    if (typeof rule.permissions === 'undefined' && !isRelative) {
+      throw new Error(
+        `${SetFilePermissionsPlugin.name}: "permissions", "add" or "remove" option is required for ${label}.`
+      );
+    }
+    if (typeof rule.permissions !== 'undefined' && isRelative) {
+      throw new Error(
+        `${SetFilePermissionsPlugin.name}: "permissions" option cannot be combined with "add" or "remove" for ${label}.`
+      );
+    }
+  }
 
-        if (!outputFileSystem || typeof outputFileSystem.chmod !== 'function') {
-          compilation.warnings.push(
-            new Error(
-              `${SetFilePermissionsPlugin.name}: The output file system does not support 'chmod'. Skipping permission changes.`
-            )
+  #compileModeChange(rule: PermissionsOptions, label: string): ModeChange {
+    const parse = (
+      option: 'permissions' | 'add' | 'remove',
+      fallback?: number
+    ) => {
+      const value = rule[option];
+      return typeof value === 'undefined'
+        ? fallback
+        : this.#parsePermissions(
+            value,
+            `"${option}" option for ${label}`,
+            option !== 'permissions'
           );
-          return callback();
-        }
+    };
+    return {
+      permissions: parse('permissions'),
+      add: parse('add', 0) as number,
+      remove: parse('remove', 0) as number,
+      owner: rule.owner,
+      group: rule.group,
+    };
+  }
+
+  #parsePermissions(
+    permissions: Permissions,
+    subject: string,
+    relative = false
+  ): number {
+    if (typeof permissions === 'string') {
+      if (!relative && isRelativeExpression(permissions)) {
+        throw new Error(
+          `${SetFilePermissionsPlugin.name}: ${subject} must be an absolute mode, but "${permissions}" adds or removes permissions. Use "=" to assign them, or the "add" and "remove" options of a rule.`
+        );
+      }
+      const mode = parsePermissionBits(permissions);
+      if (mode === null) {
+        throw new Error(
+          `${SetFilePermissionsPlugin.name}: ${subject} is not a valid mode: "${permissions}".`
+        );
+      }
+      return mode;
+    }
+    if (!this.#allowAmbiguousPermissions && isAmbiguousMode(permissions)) {
+      throw new Error(
+        `${SetFilePermissionsPlugin.name}: ${ambiguousModeMessage(subject, permissions)}`
+      );
+    }
+    return permissions;
+  }
 
-        const mods = Object.keys(compilation.assets)
-          .map((assetName) => {
-            const matchingRule = this.#rules.find((rule) => {
-              return rule.patterns.some((pattern) => {
-                if (typeof pattern === 'string') {
-                  return assetName === pattern;
-                } else if (pattern instanceof RegExp) {
-                  return pattern.test(assetName);
+  #setPermissions(run: Run, planned: PlannedChange): Promise<number | null> {
+    const { outputFileSystem, hooks } = run;
+    const filePath = join(run.outputPath, planned.name);
+    return this.#resolvePlannedMode(run, planned).then((mode) => {
+      if (mode === null) {
+        return null;
+      }
+      const data = {
+        name: planned.name,
+        path: filePath,
+        type: planned.type,
+        mode,
+      };
+      // chown clears the setuid and setgid bits, so it has to come first.
+      return hooks.beforeChmod
+        .promise(data)
+        .then(() =>
+          planned.change
+            ? this.#setOwnership(run, filePath, planned.change)
+            : undefined
+        )
+        .then(
+          () =>
+            new Promise<boolean>((resolve) => {
+              outputFileSystem.chmod(filePath, mode, (err) => {
+                if (err) {
+                  this.#reportFailure(
+                    run,
+                    `Could not set permissions for ${filePath}. Error: ${err.message}`
+                  );
                 }
-                return false;
+                resolve(!err);
               });
-            });
+            })
+        )
+        .then((changed) =>
+          (changed && this.#verify
+            ? this.#verifyMode(run, filePath, mode)
+            : Promise.resolve()
+          )
+            .then(() => (changed ? hooks.afterChmod.promise(data) : undefined))
+            .then(() => (changed ? mode : null))
+        );
+    });
+  }
 
-            if (matchingRule) {
-              return new Promise<void>((resolve) => {
-                const filePath = join(outputPath, assetName);
-                outputFileSystem.chmod(
-                  filePath,
-                  matchingRule.permissions,
-                  (err) => {
-                    if (err) {
-                      compilation.warnings.push(
-                        new Error(
-                          `${SetFilePermissionsPlugin.name}: Could not set permissions for ${filePath}. Error: ${err.message}`
-                        )
-                      );
-                    }
-                    resolve();
-                  }
-                );
-              });
+  /**
+   * Resolves the mode of a planned change and passes it through the
+   * `resolvePermissions` hook. Resolves to `null` if nothing should change.
+   */
+  #resolvePlannedMode(
+    run: Run,
+    { name, type, rule, change }: PlannedChange
+  ): Promise<number | null> {
+    const path = join(run.outputPath, name);
+    return (
+      change ? this.#resolveMode(run, path, change) : Promise.resolve(null)
+    )
+      .then((mode) =>
+        run.hooks.resolvePermissions.promise({
+          name,
+          path,
+          type,
+          rule: rule ?? null,
+          mode: mode ?? false,
+        })
+      )
+      .then(({ mode }) => (mode === false ? null : mode));
+  }
+
+  #setOwnership(run: Run, filePath: string, rule: ModeChange): Promise<void> {
+    const { outputFileSystem } = run;
+    const { chown } = outputFileSystem;
+    if (
+      typeof chown !== 'function' ||
+      (typeof rule.owner === 'undefined' && typeof rule.group === 'undefined')
+    ) {
+      return Promise.resolve();
+    }
+    return this.#resolveOwnership(rule.owner, rule.group).then(
+      ({ uid, gid }) =>
+        new Promise<void>((resolve) => {
+          chown.call(outputFileSystem, filePath, uid, gid, (err) => {
+            if (err) {
+              this.#reportFailure(
+                run,
+                `Could not set ownership for ${filePath}. Error: ${err.message}`
+              );
+            }
+            resolve();
+          });
+        }),
+      (err: Error) => {
+        this.#reportFailure(
+          run,
+          `Could not set ownership for ${filePath}. Error: ${err.message}`
+        );
+      }
+    );
+  }
+
+  #resolveMode(
+    run: Run,
+    filePath: string,
+    rule: ModeChange
+  ): Promise<number | null> {
+    if (typeof rule.permissions !== 'undefined') {
+      return Promise.resolve(rule.permissions);
+    }
+    return new Promise((resolve) => {
+      run.outputFileSystem.stat(filePath, (err, stats) => {
+        if (err || !stats) {
+          this.#reportFailure(
+            run,
+            `Could not read permissions for ${filePath}. Error: ${err?.message}`
+          );
+          return resolve(null);
+        }
+        const current = Number(stats.mode) & 0o7777;
+        resolve((current & ~rule.remove) | rule.add);
+      });
+    });
+  }
+
+  /**
+   * Reads the mode back after `chmod`, since some file systems (e.g. certain
+   * network or Windows mounts) accept the call without changing anything.
+   */
+  #verifyMode(run: Run, filePath: string, expected: number): Promise<void> {
+    return new Promise((resolve) => {
+      run.outputFileSystem.stat(filePath, (err, stats) => {
+        if (err || !stats) {
+          this.#reportFailure(
+            run,
+            `Could not verify permissions for ${filePath}. Error: ${err?.message}`
+          );
+        } else if ((Number(stats.mode) & 0o7777) !== expected) {
+          this.#reportFailure(
+            run,
+            `Permissions for ${filePath} are ${formatMode(Number(stats.mode) & 0o7777)} instead of ${formatMode(expected)}.`
+          );
+        }
+        resolve();
+      });
+    });
+  }
+
+  #reportFailure(reporter: PermissionsReporter, message: string): void {
+    this.#report(reporter, this.#severity.failure, message);
+  }
+
+  #report(
+    reporter: PermissionsReporter,
+    severity: Severity,
+    message: string
+  ): void {
+    if (severity === 'error') {
+      reporter.errors.push(
+        new Error(`${SetFilePermissionsPlugin.name}: ${message}`)
+      );
+    } else if (severity === 'warning') {
+      reporter.warnings.push(
+        new Error(`${SetFilePermissionsPlugin.name}: ${message}`)
+      );
+    } else if (severity === 'info') {
+      reporter.logger.info(message);
+    }
+  }
+
+  /**
+   * Reports rules that did not match any file or directory of the plan.
+   */
+  #reportUnmatchedRules(run: Run, plan: PlannedChange[]): void {
+    if (this.#severity.unmatchedRule === 'ignore') {
+      return;
+    }
+    const matched = {
+      file: new Set<number>(),
+      directory: new Set<number>(),
+    };
+    for (const { type, matched: indices = [] } of plan) {
+      indices.forEach((index) => matched[type].add(index));
+    }
+    this.#rules.forEach((rule, index) => {
+      if (!matched.file.has(index) && appliesTo(rule, run)) {
+        this.#report(
+          run,
+          this.#severity.unmatchedRule,
+          `Rule at index ${index} did not match any file.`
+        );
+      }
+    });
+    this.#directoryRules.forEach((rule, index) => {
+      if (!matched.directory.has(index) && appliesTo(rule, run)) {
+        this.#report(
+          run,
+          this.#severity.unmatchedRule,
+          `Directory rule at index ${index} did not match any directory.`
+        );
+      }
+    });
+  }
+
+  #isShebangAsset(run: Run, assetName: string, assetInfo: AssetInfo): boolean {
+    if (!JAVASCRIPT_FILE.test(assetName) && !assetInfo.javascriptModule) {
+      return false;
+    }
+    if (run.shebangFiles.has(assetName)) {
+      return true;
+    }
+    try {
+      // Sources of emitted assets are usually released, in which case only
+      // the assets recorded by the assetEmitted hook or read back by
+      // #readShebangAssets are known.
+      const content = run.compilation?.assets[assetName]?.source();
+      return typeof content !== 'undefined' && hasShebang(content);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Reads the start of JavaScript assets whose source is no longer
+   * available and that did not pass through the assetEmitted hook, e.g.
+   * because webpack skipped writing an unchanged file. Without a
+   * compilation, every JavaScript file is read.
+   */
+  async #readShebangAssets(run: Run, assetNames: string[]): Promise<void> {
+    const { compilation, shebangFiles } = run;
+    const unknown = assetNames.filter((assetName) => {
+      if (
+        shebangFiles.has(assetName) ||
+        (!JAVASCRIPT_FILE.test(assetName) &&
+          !compilation?.assetsInfo.get(assetName)?.javascriptModule)
+      ) {
+        return false;
+      }
+      if (!compilation) {
+        return true;
+      }
+      try {
+        compilation.assets[assetName]?.source();
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    await Promise.all(
+      unknown.map((assetName) =>
+        this.#limit(() =>
+          readHead(run.outputFileSystem, join(run.outputPath, assetName))
+        ).then(
+          (head) => {
+            if (hasShebang(head)) {
+              shebangFiles.add(assetName);
             }
+          },
+          () => undefined
+        )
+      )
+    );
+  }
+
+  #planFiles(run: Run, files: string[]): PlannedChange[] {
+    const { compilation } = run;
+    // Magic comments are read while webpack parses the modules.
+    const sourceChanges =
+      this.#magicComments && compilation
+        ? this.#collectSourcePermissions(run, compilation)
+        : new Map<string, ModeChange>();
+    return files.map((name) => {
+      const assetInfo = compilation?.assetsInfo.get(name) ?? {};
+      const assetInfoChange = this.#assetInfoChange(run, name, assetInfo);
+      const sourceChange = sourceChanges.get(name);
+      const declared: PlannedChange | undefined = assetInfoChange
+        ? { name, type: 'file', rule: 'assetInfo', change: assetInfoChange }
+        : sourceChange
+          ? { name, type: 'file', rule: 'source', change: sourceChange }
+          : undefined;
+      const matched = this.#matchRules(run, this.#rules, (rule) =>
+        rule.matches(name, assetInfo, compilation)
+      );
+      if (declared && (this.#preferAssetInfo || !matched)) {
+        return { ...declared, matched: matched?.matched };
+      }
+      if (matched) {
+        return { name, type: 'file', ...matched };
+      }
+      if (this.#shebang && this.#isShebangAsset(run, name, assetInfo)) {
+        return { name, type: 'file', rule: 'shebang', change: this.#shebang };
+      }
+      if (this.#default?.matches(name, assetInfo, compilation)) {
+        return { name, type: 'file', rule: 'default', change: this.#default };
+      }
+      return { name, type: 'file' };
+    });
+  }
+
+  /**
+   * Maps the JavaScript chunk files of modules that declare their permissions
+   * in the source to the declared change. A `#!` banner only counts in entry
+   * modules, and the first declaring module of a file wins. Modules inside a
+   * concatenated module count for the chunks of the concatenated module.
+   */
+  #collectSourcePermissions(
+    reporter: PermissionsReporter,
+    compilation: Compilation
+  ): Map<string, ModeChange> {
+    const changes = new Map<string, ModeChange>();
+    const { chunkGraph } = compilation;
+    // Concatenated modules are also listed on their own, so each comment is
+    // only parsed and reported once.
+    const declaredModes = new Map<Module, ModeChange | undefined>();
+    const declaredMode = (module: Module) => {
+      if (!declaredModes.has(module)) {
+        declaredModes.set(
+          module,
+          this.#declaredMode(reporter, compilation, module)
+        );
+      }
+      return declaredModes.get(module);
+    };
+    for (const module of compilation.modules) {
+      const [root, modules] = isConcatenatedModule(module)
+        ? [module.rootModule, module.modules]
+        : [module, [module]];
+      const declared: SourcePermissions | undefined =
+        root.buildInfo?.[BUILD_INFO_KEY];
+      const change =
+        modules.map(declaredMode).find(Boolean) ??
+        (declared?.shebang && chunkGraph.isEntryModule(module)
+          ? (this.#shebang ?? EXECUTABLE)
+          : undefined);
+      if (!change) {
+        continue;
+      }
+      for (const chunk of chunkGraph.getModuleChunksIterable(module)) {
+        for (const file of chunk.files) {
+          if (JAVASCRIPT_FILE.test(file) && !changes.has(file)) {
+            changes.set(file, change);
+          }
+        }
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Reads the mode of a `webpackPermissions` comment, reporting invalid ones.
+   */
+  #declaredMode(
+    reporter: PermissionsReporter,
+    compilation: Compilation,
+    module: Module
+  ): ModeChange | undefined {
+    const declared: SourcePermissions | undefined =
+      module.buildInfo?.[BUILD_INFO_KEY];
+    if (typeof declared?.permissions === 'undefined') {
+      return undefined;
+    }
+    const mode = parsePermissions(declared.permissions);
+    if (mode === null) {
+      this.#reportFailure(
+        reporter,
+        `The "webpackPermissions" comment in ${module.readableIdentifier(compilation.requestShortener)} is not a valid mode: "${declared.permissions}".`
+      );
+      return undefined;
+    }
+    return { permissions: mode, add: 0, remove: 0 };
+  }
 
-            return null;
+  /**
+   * Reads the mode declared in the `permissions` asset info, e.g. by
+   * `compilation.emitAsset(name, source, { permissions: 0o755 })`.
+   */
+  #assetInfoChange(
+    reporter: PermissionsReporter,
+    name: string,
+    assetInfo: AssetInfo
+  ): ModeChange | undefined {
+    const { permissions } = assetInfo;
+    if (typeof permissions === 'undefined') {
+      return undefined;
+    }
+    const mode =
+      typeof permissions === 'string'
+        ? parsePermissions(permissions)
+        : permissions;
+    if (
+      typeof mode !== 'number' ||
+      !Number.isInteger(mode) ||
+      mode < 0 ||
+      mode > 0o7777
+    ) {
+      this.#reportFailure(
+        reporter,
+        `The "permissions" asset info of ${name} is not a valid mode: ${JSON.stringify(permissions)}.`
+      );
+      return undefined;
+    }
+    if (
+      typeof permissions === 'number' &&
+      !this.#allowAmbiguousPermissions &&
+      isAmbiguousMode(permissions)
+    ) {
+      this.#reportFailure(
+        reporter,
+        ambiguousModeMessage(`The "permissions" asset info of ${name}`, mode)
+      );
+      return undefined;
+    }
+    return { permissions: mode, add: 0, remove: 0 };
+  }
+
+  /**
+   * Selects the matching rules according to the match strategy. Every
+   * matching rule is recorded, so that rules which never apply are not
+   * reported as unmatched. Rules for other compilers are skipped.
+   */
+  #matchRules<T extends CompiledRule>(
+    run: Run,
+    rules: T[],
+    predicate: (rule: T, index: number) => boolean
+  ): Pick<PlannedChange, 'rule' | 'matched' | 'change'> | undefined {
+    const matched = rules.flatMap((rule, index) =>
+      appliesTo(rule, run) && predicate(rule, index) ? [index] : []
+    );
+    if (matched.length === 0) {
+      return undefined;
+    }
+    if (this.#matchStrategy === 'first') {
+      return { rule: matched[0], matched, change: rules[matched[0]] };
+    }
+    const last = matched[matched.length - 1];
+    return {
+      rule: last,
+      matched,
+      change:
+        this.#matchStrategy === 'merge'
+          ? mergeModeChanges(matched.map((index) => rules[index]))
+          : rules[last],
+    };
+  }
+
+  /**
+   * Matches directory rules against every directory that contains one of the
+   * given files. Deeper directories come first, so a restrictive mode on a
+   * parent cannot prevent changing its children.
+   */
+  #planDirectories(run: Run, files: string[]): PlannedChange[] {
+    if (this.#directoryRules.length === 0) {
+      return [];
+    }
+
+    const { compilation } = run;
+    const directories = new Set<string>();
+    const parentMatches = this.#directoryRules.map(() => new Set<string>());
+    for (const assetName of files) {
+      const assetInfo = compilation?.assetsInfo.get(assetName) ?? {};
+      const parents = parentDirectories(assetName);
+      parents.forEach((directory) => directories.add(directory));
+      this.#directoryRules.forEach((rule, index) => {
+        if (rule.matchesChild(assetName, assetInfo, compilation)) {
+          parents.forEach((directory) => parentMatches[index].add(directory));
+        }
+      });
+    }
+
+    const planned: PlannedChange[] = [];
+    for (const directory of directories) {
+      const matched = this.#matchRules(
+        run,
+        this.#directoryRules,
+        (rule, i) =>
+          (parentMatches[i].has(directory) &&
+            !rule.excludes(directory, {}, compilation)) ||
+          rule.matches(directory, {}, compilation)
+      );
+      if (matched) {
+        planned.push({ name: directory, type: 'directory', ...matched });
+      }
+    }
+    return planned.sort(
+      (a, b) => b.name.split('/').length - a.name.split('/').length
+    );
+  }
+
+  async #applyPlan(run: Run, plan: PlannedChange[]): Promise<AppliedChange[]> {
+    const { logger } = run;
+    const changed: AppliedChange[] = [];
+    const apply = (changes: PlannedChange[]) =>
+      Promise.all(
+        changes.map((planned) =>
+          this.#limit(() => this.#setPermissions(run, planned)).then((mode) => {
+            if (mode !== null) {
+              logger.debug(`${planned.name}: ${formatMode(mode)}`);
+              changed.push({ ...planned, mode });
+            }
           })
-          .filter(Boolean);
+        )
+      );
+
+    await apply(plan.filter(({ type }) => type === 'file'));
+
+    const levels = new Map<number, PlannedChange[]>();
+    for (const change of plan) {
+      if (change.type === 'directory') {
+        const depth = change.name.split('/').length;
+        levels.set(depth, [...(levels.get(depth) ?? []), change]);
+      }
+    }
+    for (const depth of [...levels.keys()].sort((a, b) => b - a)) {
+      await apply(levels.get(depth) ?? []);
+    }
 
-        Promise.all(mods)
-          .then(() => callback())
+    logger.info(summarize(changed));
+    return changed;
+  }
+
+  /**
+   * Reports the planned changes instead of applying them.
+   */
+  async #reportPlan(run: Run, plan: PlannedChange[]): Promise<void> {
+    const { logger } = run;
+    const entries = await Promise.all(
+      plan.map(async (planned) => {
+        const { name, type, rule } = planned;
+        const mode = await this.#limit(() =>
+          this.#resolvePlannedMode(run, planned)
+        );
+        if (typeof rule === 'undefined' && mode === null) {
+          logger.info(`[dry run] ${name}: no matching rule`);
+        } else {
+          const source =
+            typeof rule === 'undefined'
+              ? 'resolvePermissions hook'
+              : typeof rule === 'number'
+                ? `${type === 'directory' ? 'directory rule' : 'rule'} ${rule}`
+                : rule;
+          logger.info(
+            `[dry run] ${name}: ${mode === null ? 'unknown mode' : formatMode(mode)} (${source})`
+          );
+        }
+        return {
+          path: name,
+          type,
+          rule: rule ?? null,
+          mode: mode === null ? null : formatMode(mode),
+        };
+      })
+    );
+
+    const { report } = this.#dryRun ?? {};
+    if (!report) {
+      return;
+    }
+    const reportPath = join(run.outputPath, report);
+    await writeOutputFile(
+      run.outputFileSystem,
+      reportPath,
+      JSON.stringify({ files: entries }, null, 2)
+    ).catch((err: Error) =>
+      this.#reportFailure(
+        run,
+        `Could not write dry run report to ${reportPath}. Error: ${err.message}`
+      )
+    );
+  }
+
+  /**
+   * Writes the manifest of applied modes, and the restore script if enabled.
+   * Changes from earlier runs of the compiler are kept for files that still
+   * exist, since rebuilds only change emitted assets.
+   */
+  async #writeManifest(
+    run: Run,
+    compiler: Compiler,
+    manifest: CompiledManifest,
+    changed: AppliedChange[],
+    names: string[]
+  ): Promise<void> {
+    const { outputFileSystem, outputPath } = run;
+    const current = new Set([...names, ...names.flatMap(parentDirectories)]);
+    const previous = this.#manifests.get(compiler) ?? new Map();
+    const changes = new Map(
+      [...previous].filter(([name]) => current.has(name))
+    );
+    for (const change of changed) {
+      changes.set(change.name, change);
+    }
+    this.#manifests.set(compiler, changes);
+
+    const sorted = [...changes.values()].sort((a, b) =>
+      a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+    );
+    const writeFile = (name: string, content: string) => {
+      const path = join(outputPath, name);
+      return writeOutputFile(outputFileSystem, path, content).then(
+        () => path,
+        (err: Error) => {
+          this.#reportFailure(
+            run,
+            `Could not write ${path}. Error: ${err.message}`
+          );
+          return '';
+        }
+      );
+    };
+
+    await writeFile(
+      manifest.filename,
+      JSON.stringify(
+        Object.fromEntries(
+          sorted.map(({ name, mode }) => [name, formatMode(mode)])
+        ),
+        null,
+        2
+      )
+    );
+    if (manifest.script) {
+      const path = await writeFile(
+        manifest.script,
+        createRestoreScript(manifest.script, sorted)
+      );
+      if (path) {
+        await new Promise<void>((resolve) =>
+          outputFileSystem.chmod(path, 0o755, (err) => {
+            if (err) {
+              this.#reportFailure(
+                run,
+                `Could not set permissions for ${path}. Error: ${err.message}`
+              );
+            }
+            resolve();
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * Packs the given files and their parent directories into the archive,
+   * with the modes they have on the output file system and the owners of
+   * the matching rules. Plans from earlier runs of the compiler are kept for
+   * files that still exist, since rebuilds only plan emitted assets.
+   */
+  async #writeArchive(
+    run: Run,
+    compilation: Compilation,
+    archive: CompiledArchive,
+    plan: PlannedChange[],
+    names: string[]
+  ): Promise<void> {
+    const { outputFileSystem, outputPath } = run;
+    const current = new Set([...names, ...names.flatMap(parentDirectories)]);
+    const previous = this.#archivePlans.get(compilation.compiler) ?? new Map();
+    const planned = new Map(
+      [...previous].filter(([name]) => current.has(name))
+    );
+    for (const change of plan) {
+      planned.set(change.name, change);
+    }
+    this.#archivePlans.set(compilation.compiler, planned);
+
+    const archivePath = join(outputPath, archive.filename);
+    const files = names.filter(
+      (name) =>
+        name !== archive.filename &&
+        archive.matches(
+          name,
+          compilation.assetsInfo.get(name) ?? {},
+          compilation
+        )
+    );
+    const directories = [...new Set(files.flatMap(parentDirectories))];
+
+    const readEntry = (
+      name: string,
+      type: TarEntry['type']
+    ): Promise<TarEntry> => {
+      const path = join(outputPath, name);
+      const change = planned.get(name)?.change;
+      return this.#resolveOwnership(change?.owner, change?.group)
+        .then(
+          ({ uid, gid }) =>
+            new Promise<TarEntry>((resolve, reject) => {
+              outputFileSystem.stat(path, (err, stats) =>
+                err || !stats
+                  ? reject(err)
+                  : resolve({
+                      name,
+                      type,
+                      mode: Number(stats.mode),
+                      mtime: archive.mtime,
+                      // Entries without an owner or group belong to root.
+                      uid: Math.max(uid, 0),
+                      gid: Math.max(gid, 0),
+                      uname:
+                        typeof change?.owner === 'string' ? change.owner : '',
+                      gname:
+                        typeof change?.group === 'string' ? change.group : '',
+                    })
+              );
+            })
+        )
+        .then((entry) =>
+          type === 'directory'
+            ? entry
+            : new Promise<TarEntry>((resolve, reject) => {
+                outputFileSystem.readFile(path, (err, content) =>
+                  err || !content
+                    ? reject(err)
+                    : resolve({ ...entry, content: Buffer.from(content) })
+                );
+              })
+        );
+    };
+
+    try {
+      const entries = await Promise.all([
+        ...directories.map((name) =>
+          this.#limit(() => readEntry(name, 'directory'))
+        ),
+        ...files.map((name) => this.#limit(() => readEntry(name, 'file'))),
+      ]);
+      const tar = createTar(entries);
+      const content = archive.gzip
+        ? await new Promise<Buffer>((resolve, reject) =>
+            gzip(tar, (err, result) => (err ? reject(err) : resolve(result)))
+          )
+        : tar;
+      await writeOutputFile(outputFileSystem, archivePath, content);
+      run.logger.info(
+        `Packed ${pluralize(files.length, 'file')} into ${archive.filename}`
+      );
+    } catch (err) {
+      this.#reportFailure(
+        run,
+        `Could not write archive ${archivePath}. Error: ${(err as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Lists files in the output directory that are not emitted assets of the
+   * compilation, when scanning is enabled.
+   */
+  #scanOutputPath(run: Run, compilation: Compilation): Promise<string[]> {
+    const { outputFileSystem, outputPath } = run;
+    if (!this.#scan) {
+      return Promise.resolve([]);
+    }
+    if (typeof outputFileSystem.readdir !== 'function') {
+      this.#report(
+        run,
+        this.#severity.unsupportedFileSystem,
+        `The output file system does not support 'readdir'. Skipping output directory scan.`
+      );
+      return Promise.resolve([]);
+    }
+    // Assets that were not emitted again on a rebuild are still assets,
+    // even though they are not processed.
+    const assets = new Set(Object.keys(compilation.assets));
+    return scanOutputPath(
+      outputFileSystem,
+      outputPath,
+      this.#scan,
+      this.#limit
+    ).then(
+      (files) => files.filter((file) => !assets.has(file)),
+      (err: Error) => {
+        this.#reportFailure(
+          run,
+          `Could not scan ${outputPath}. Error: ${err.message}`
+        );
+        return [];
+      }
+    );
+  }
+
+  /**
+   * Reports what the output file system lacks, and whether permissions can
+   * be planned on it at all.
+   */
+  #supportsFileSystem(
+    reporter: PermissionsReporter,
+    outputFileSystem: PermissionsFileSystem | null
+  ): outputFileSystem is PermissionsFileSystem {
+    if (
+      !this.#dryRun &&
+      (!outputFileSystem || typeof outputFileSystem.chmod !== 'function')
+    ) {
+      this.#report(
+        reporter,
+        this.#severity.unsupportedFileSystem,
+        `The output file system does not support 'chmod'. Skipping permission changes.`
+      );
+      return false;
+    }
+    if (!outputFileSystem) {
+      return false;
+    }
+    if (
+      !this.#dryRun &&
+      this.#changesOwnership &&
+      typeof outputFileSystem.chown !== 'function'
+    ) {
+      this.#report(
+        reporter,
+        this.#severity.unsupportedFileSystem,
+        `The output file system does not support 'chown'. Skipping ownership changes.`
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Plans the given files and their directories, and applies the plan, or
+   * only reports it in a dry run. Both the afterEmit hook and
+   * `applyToFiles` end up here.
+   */
+  async #process(
+    run: Run,
+    files: string[],
+    { reportUnmatchedRules }: { reportUnmatchedRules: boolean }
+  ): Promise<{ plan: PlannedChange[]; changed?: AppliedChange[] }> {
+    if (this.#shebang) {
+      await this.#readShebangAssets(run, files);
+    }
+    const plan = [
+      ...this.#planFiles(run, files),
+      ...this.#planDirectories(run, files),
+    ];
+    if (reportUnmatchedRules) {
+      this.#reportUnmatchedRules(run, plan);
+    }
+    if (this.#dryRun) {
+      await this.#reportPlan(run, plan);
+      return { plan };
+    }
+    return { plan, changed: await this.#applyPlan(run, plan) };
+  }
+
+  public apply(compiler: Compiler | MultiCompiler): void {
+    if ('compilers' in compiler) {
+      compiler.compilers.forEach((child) => this.apply(child));
+      return;
+    }
+
+    if (this.#shebang) {
+      compiler.hooks.assetEmitted.tap(
+        SetFilePermissionsPlugin.name,
+        (file, { content, compilation }) => {
+          if (hasShebang(content)) {
+            const assets = this.#shebangAssets.get(compilation) ?? new Set();
+            this.#shebangAssets.set(compilation, assets.add(file));
+          }
+        }
+      );
+    }
+
+    if (this.#magicComments) {
+      compiler.hooks.compilation.tap(
+        SetFilePermissionsPlugin.name,
+        (compilation, { normalModuleFactory }) => {
+          const handler = (parser: javascript.JavascriptParser) => {
+            parser.hooks.program.tap(
+              SetFilePermissionsPlugin.name,
+              (ast, comments) => {
+                const { module, source } = parser.state;
+                const declared: SourcePermissions = {
+                  permissions: readMagicComment(comments),
+                  shebang: hasShebang(source),
+                };
+                if (declared.permissions || declared.shebang) {
+                  module.buildInfo ??= {};
+                  module.buildInfo[BUILD_INFO_KEY] = declared;
+                }
+              }
+            );
+          };
+          for (const type of JAVASCRIPT_MODULE_TYPES) {
+            normalModuleFactory.hooks.parser
+              .for(type)
+              .tap(SetFilePermissionsPlugin.name, handler);
+          }
+        }
+      );
+    }
+
+    compiler.hooks.afterEmit.tapAsync(
+      SetFilePermissionsPlugin.name,
+      (compilation, callback) => {
+        const reporter = {
+          warnings: compilation.warnings,
+          errors: compilation.errors,
+          logger: compilation.getLogger(SetFilePermissionsPlugin.name),
+        };
+        const outputFileSystem =
+          compiler.outputFileSystem as PermissionsFileSystem | null;
+        if (!this.#supportsFileSystem(reporter, outputFileSystem)) {
+          return callback();
+        }
+
+        const shebangFiles = this.#shebangAssets.get(compilation) ?? new Set();
+        this.#shebangAssets.set(compilation, shebangFiles);
+        const run: Run = {
+          ...reporter,
+          // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+          outputPath: compiler.options.output.path!,
+          outputFileSystem,
+          compilerName: compiler.name,
+          compilation,
+          hooks: getCompilationHooks(compilation),
+          shebangFiles,
+        };
+        // Assets that were not written again keep the permissions set by
+        // the previous run, so rebuilds only need to process emitted ones.
+        const isRebuild =
+          this.#incremental && this.#processedCompilers.has(compiler);
+        const assetNames = Object.keys(compilation.assets).filter(
+          (assetName) => !isRebuild || compilation.emittedAssets.has(assetName)
+        );
+        this.#scanOutputPath(run, compilation)
+          .then(async (scannedFiles) => {
+            const files = [...assetNames, ...scannedFiles];
+            // Rebuilds only see emitted assets, so most rules match nothing.
+            const { plan, changed } = await this.#process(run, files, {
+              reportUnmatchedRules: !isRebuild,
+            });
+            if (!changed) {
+              return;
+            }
+            // Rebuilds only plan emitted assets, but the manifest and the
+            // archive need all of them.
+            const allFiles = [
+              ...new Set([...Object.keys(compilation.assets), ...files]),
+            ];
+            if (this.#manifest) {
+              await this.#writeManifest(
+                run,
+                compiler,
+                this.#manifest,
+                changed,
+                allFiles
+              );
+            }
+            if (this.#archive) {
+              await this.#writeArchive(
+                run,
+                compilation,
+                this.#archive,
+                plan,
+                allFiles
+              );
+            }
+          })
+          .then(() => {
+            this.#processedCompilers.add(compiler);
+            callback();
+          })
           .catch((err) => {
             compilation.errors.push(
               new Error(
@@ -135,4 +1807,32 @@ export class SetFilePermissionsPlugin implements WebpackPluginInstance {
       }
     );
   }
+
+  /**
+   * Applies the rules to files that webpack did not emit, e.g. from the
+   * command line. Without a compilation, rules that select `entries` or
+   * `chunks` and magic comments match nothing, function patterns receive
+   * `undefined` as the compilation, and there are no hooks to tap. Problems
+   * are pushed to `warnings` and `errors`.
+   */
+  public async applyToFiles({
+    outputFileSystem,
+    files,
+    ...target
+  }: ApplyToFilesOptions): Promise<void> {
+    const fs = outputFileSystem as PermissionsFileSystem;
+    if (!this.#supportsFileSystem(target, fs)) {
+      return;
+    }
+    await this.#process(
+      {
+        ...target,
+        outputFileSystem: fs,
+        hooks: createHooks(),
+        shebangFiles: new Set(),
+      },
+      files,
+      { reportUnmatchedRules: true }
+    );
+  }
 }
@@ -0,0 +1,81 @@
+import { lstat, readdir, stat } from 'node:fs';
+import { mkdtemp, mkdir, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { OutputFileSystem } from 'webpack';
+import { scanOutputPath } from './scan.js';
+
+describe('scanOutputPath', () => {
+  let outputPath: string;
+  let outputFileSystem: OutputFileSystem;
+
+  beforeEach(async () => {
+    outputFileSystem = {
+      readdir: vi.fn(readdir),
+      lstat,
+      stat,
+    } as unknown as OutputFileSystem;
+    outputPath = await mkdtemp(join(tmpdir(), 'permissions-scan-'));
+    await mkdir(join(outputPath, 'bin'));
+    await mkdir(join(outputPath, 'lib/native'), { recursive: true });
+    await mkdir(join(outputPath, 'node_modules/pkg'), { recursive: true });
+    await writeFile(join(outputPath, 'main.js'), '');
+    await writeFile(join(outputPath, '.env'), '');
+    await writeFile(join(outputPath, 'bin/cli.js'), '');
+    await writeFile(join(outputPath, 'lib/native/addon.node'), '');
+    await writeFile(join(outputPath, 'node_modules/pkg/index.js'), '');
+    await symlink(join(outputPath, 'lib'), join(outputPath, 'link'));
+  });
+
+  afterEach(async () => {
+    await rm(outputPath, { recursive: true, force: true });
+  });
+
+  it('should list all files relative to the output path', async () => {
+    await expect(scanOutputPath(outputFileSystem, outputPath)).resolves.toEqual(
+      [
+        '.env',
+        'bin/cli.js',
+        'lib/native/addon.node',
+        'main.js',
+        'node_modules/pkg/index.js',
+      ]
+    );
+  });
+
+  it('should only scan the configured directory', async () => {
+    await expect(
+      scanOutputPath(outputFileSystem, outputPath, { directory: 'lib/' })
+    ).resolves.toEqual(['lib/native/addon.node']);
+  });
+
+  it('should filter files with include and exclude globs', async () => {
+    await expect(
+      scanOutputPath(outputFileSystem, outputPath, {
+        include: ['**/*.js', '**/*.node'],
+        exclude: 'node_modules/**',
+      })
+    ).resolves.toEqual(['bin/cli.js', 'lib/native/addon.node', 'main.js']);
+  });
+
+  it('should not traverse excluded directories', async () => {
+    await scanOutputPath(outputFileSystem, outputPath, {
+      exclude: 'node_modules',
+    });
+
+    expect(outputFileSystem.readdir).not.toHaveBeenCalledWith(
+      join(outputPath, 'node_modules'),
+      expect.any(Function)
+    );
+    expect(outputFileSystem.readdir).toHaveBeenCalledWith(
+      join(outputPath, 'lib'),
+      expect.any(Function)
+    );
+  });
+
+  it('should reject when the directory does not exist', async () => {
+    await expect(
+      scanOutputPath(outputFileSystem, outputPath, { directory: 'missing' })
+    ).rejects.toThrow('ENOENT');
+  });
+});
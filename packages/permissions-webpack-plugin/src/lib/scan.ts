@@ -0,0 +1,104 @@
+import { join } from 'node:path';
+import picomatch from 'picomatch';
+import type { OutputFileSystem } from 'webpack';
+import type { Limit } from './limit.js';
+
+export interface ScanOptions {
+  /**
+   * Directory to scan, relative to `output.path`. Defaults to `output.path`.
+   */
+  directory?: string;
+  /**
+   * Globs of files to include, relative to `output.path`. Defaults to all
+   * files.
+   */
+  include?: string | string[];
+  /**
+   * Globs of files and directories to skip, relative to `output.path`.
+   * Excluded directories are not traversed.
+   */
+  exclude?: string | string[];
+  /**
+   * Allow `include` and `exclude` globs to match dotfiles.
+   */
+  dot?: boolean;
+}
+
+type ScanFileSystem = Pick<OutputFileSystem, 'readdir' | 'stat' | 'lstat'>;
+
+const readdir = (fs: ScanFileSystem, path: string) =>
+  new Promise<string[]>((resolve, reject) => {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fs.readdir!(path, (err, files) =>
+      err ? reject(err) : resolve((files ?? []).map(String))
+    );
+  });
+
+const lstat = (fs: ScanFileSystem, path: string) =>
+  new Promise<{ isDirectory: () => boolean; isFile: () => boolean }>(
+    (resolve, reject) => {
+      (fs.lstat ?? fs.stat)(path, (err, stats) =>
+        err || !stats ? reject(err) : resolve(stats)
+      );
+    }
+  );
+
+/**
+ * Returns the directories containing a file, e.g. `['lib', 'lib/native']`
+ * for `'lib/native/addon.node'`.
+ */
+export const parentDirectories = (name: string): string[] =>
+  name
+    .split('/')
+    .slice(0, -1)
+    .map((_, i, segments) => segments.slice(0, i + 1).join('/'));
+
+/**
+ * Lists files under `outputPath` (or its `directory` subdirectory) on the
+ * given file system. Returned names are relative to `outputPath` and use
+ * forward slashes, like asset names. Symbolic links are not followed.
+ * File system calls are run through `limit`.
+ */
+export const scanOutputPath = async (
+  fs: ScanFileSystem,
+  outputPath: string,
+  options: ScanOptions = {},
+  limit: Limit = (task) => task()
+): Promise<string[]> => {
+  const globOptions = { dot: options.dot ?? false };
+  const isIncluded = options.include
+    ? picomatch(options.include, globOptions)
+    : () => true;
+  const isExcluded = options.exclude
+    ? picomatch(options.exclude, globOptions)
+    : () => false;
+
+  const files: string[] = [];
+  const visit = async (relativeDir: string): Promise<void> => {
+    const entries = await limit(() =>
+      readdir(fs, join(outputPath, relativeDir))
+    );
+    await Promise.all(
+      entries.map(async (entry) => {
+        const name = relativeDir ? `${relativeDir}/${entry}` : entry;
+        if (isExcluded(name)) {
+          return;
+        }
+        const stats = await limit(() => lstat(fs, join(outputPath, name)));
+        if (stats.isDirectory()) {
+          await visit(name);
+        } else if (stats.isFile() && isIncluded(name)) {
+          files.push(name);
+        }
+      })
+    );
+  };
+
+  await visit(
+    (options.directory ?? '')
+      .split(/[\\/]+/)
+      .filter((segment) => segment && segment !== '.')
+      .join('/')
+  );
+  return files.sort();
+};
@@ -0,0 +1,67 @@
+import { validate } from 'schema-utils';
+import { schema } from './schema.js';
+
+describe('schema', () => {
+  const isValid = (options: object) => {
+    try {
+      validate(schema, options);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  it('should accept all options', () => {
+    expect(
+      isValid({
+        rules: [
+          {
+            permissions: 0o755,
+            patterns: ['bin/**', /\.sh$/, () => true],
+            entries: 'cli',
+            compilers: ['cli', 'worker'],
+            owner: 'app',
+            group: 33,
+          },
+          {
+            add: 'u+x',
+            remove: 0o002,
+            chunks: ['vendors'],
+            exclude: /\.map$/,
+            dot: true,
+          },
+        ],
+        allowAmbiguousPermissions: false,
+        shebang: '0755',
+        preferAssetInfo: false,
+        magicComments: true,
+        matchStrategy: 'merge',
+        directories: [{ permissions: 0o750, parentsOf: 'bin/**' }],
+        scan: { directory: 'vendor', include: '**/*.node', exclude: [] },
+        incremental: false,
+        dryRun: { report: 'permissions.json' },
+        manifest: { filename: 'permissions.json', script: true },
+        archive: { filename: 'dist.tar.gz', patterns: 'bin/**', mtime: 0 },
+        verify: true,
+        concurrency: 4,
+        strict: true,
+        severity: { unsupportedFileSystem: 'ignore', unmatchedRule: 'info' },
+      })
+    ).toBe(true);
+  });
+
+  it.each([
+    ['a negative mode', { rules: [{ permissions: -1, patterns: 'a' }] }],
+    ['a fractional mode', { rules: [{ add: 0.5, patterns: 'a' }] }],
+    ['a mode above 0o7777', { rules: [{ remove: 0o10000, patterns: 'a' }] }],
+    ['a misspelled rule option', { rules: [{ permissions: 1, pattern: 'a' }] }],
+    ['an unknown option', { rules: [], rule: [] }],
+    ['missing rules', {}],
+    ['a concurrency of 0', { rules: [], concurrency: 0 }],
+    ['an unknown match strategy', { rules: [], matchStrategy: 'all' }],
+    ['an archive without a filename', { rules: [], archive: { mtime: 0 } }],
+    ['an unknown severity', { rules: [], severity: { failure: 'fatal' } }],
+  ])('should reject %s', (_, options) => {
+    expect(isValid(options)).toBe(false);
+  });
+});
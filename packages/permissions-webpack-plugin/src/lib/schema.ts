@@ -0,0 +1,312 @@
+import type { Schema } from 'schema-utils';
+
+/**
+ * JSON schema of `SetFilePermissionsPluginOptions`. Functions and RegExps
+ * are checked with the `instanceof` keyword of `schema-utils`.
+ */
+export const schema = {
+  title: 'SetFilePermissionsPluginOptions',
+  type: 'object',
+  definitions: {
+    Permissions: {
+      description:
+        'A mode as a number, e.g. 0o755, or a string in octal, symbolic or chmod notation.',
+      anyOf: [
+        { type: 'integer', minimum: 0, maximum: 0o7777 },
+        { type: 'string', minLength: 1 },
+      ],
+    },
+    Owner: {
+      anyOf: [
+        { type: 'integer', minimum: 0 },
+        { type: 'string', minLength: 1 },
+      ],
+    },
+    Pattern: {
+      anyOf: [
+        { type: 'string' },
+        { instanceof: 'RegExp' },
+        { instanceof: 'Function' },
+      ],
+    },
+    Patterns: {
+      anyOf: [
+        { $ref: '#/definitions/Pattern' },
+        { type: 'array', items: { $ref: '#/definitions/Pattern' } },
+      ],
+    },
+    Names: {
+      anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    },
+    Severity: {
+      enum: ['error', 'warning', 'info', 'ignore'],
+    },
+    Rule: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        permissions: {
+          description:
+            'Absolute mode to set. Cannot be combined with "add" or "remove".',
+          $ref: '#/definitions/Permissions',
+        },
+        add: {
+          description: 'Bits to set on top of the current mode of the file.',
+          $ref: '#/definitions/Permissions',
+        },
+        remove: {
+          description: 'Bits to clear from the current mode of the file.',
+          $ref: '#/definitions/Permissions',
+        },
+        owner: {
+          description: 'User to own matched files, as a uid or a name.',
+          $ref: '#/definitions/Owner',
+        },
+        group: {
+          description: 'Group to own matched files, as a gid or a name.',
+          $ref: '#/definitions/Owner',
+        },
+        patterns: {
+          description: 'Asset names to match, as globs, RegExps or functions.',
+          $ref: '#/definitions/Patterns',
+        },
+        exclude: {
+          description: 'Assets the rule should not apply to.',
+          $ref: '#/definitions/Patterns',
+        },
+        literal: {
+          description: 'Compare string patterns verbatim instead of as globs.',
+          type: 'boolean',
+        },
+        dot: {
+          description: 'Allow glob patterns to match dotfiles.',
+          type: 'boolean',
+        },
+        entries: {
+          description: "Names of entrypoints whose chunks' files should match.",
+          $ref: '#/definitions/Names',
+        },
+        chunks: {
+          description: 'Names of chunks whose files should match.',
+          $ref: '#/definitions/Names',
+        },
+        includeAuxiliaryFiles: {
+          description: 'Also match auxiliary files of the selected chunks.',
+          type: 'boolean',
+        },
+        includeAsyncChunks: {
+          description: 'Also match files of async chunks.',
+          type: 'boolean',
+        },
+        compilers: {
+          description: 'Names of the compilers the rule applies to.',
+          $ref: '#/definitions/Names',
+        },
+      },
+    },
+    DirectoryRule: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        permissions: { $ref: '#/definitions/Permissions' },
+        add: { $ref: '#/definitions/Permissions' },
+        remove: { $ref: '#/definitions/Permissions' },
+        owner: { $ref: '#/definitions/Owner' },
+        group: { $ref: '#/definitions/Owner' },
+        patterns: {
+          description: 'Directory paths relative to output.path.',
+          $ref: '#/definitions/Patterns',
+        },
+        parentsOf: {
+          description: 'Asset patterns whose parent directories should match.',
+          $ref: '#/definitions/Patterns',
+        },
+        exclude: {
+          description: 'Directories the rule should not apply to.',
+          $ref: '#/definitions/Patterns',
+        },
+        literal: { type: 'boolean' },
+        dot: { type: 'boolean' },
+        compilers: { $ref: '#/definitions/Names' },
+      },
+    },
+    ScanOptions: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        directory: {
+          description: 'Directory to scan, relative to output.path.',
+          type: 'string',
+        },
+        include: {
+          description: 'Globs of files to include.',
+          $ref: '#/definitions/Names',
+        },
+        exclude: {
+          description: 'Globs of files and directories to skip.',
+          $ref: '#/definitions/Names',
+        },
+        dot: { type: 'boolean' },
+      },
+    },
+  },
+  properties: {
+    rules: {
+      description: 'Rules for files emitted by webpack.',
+      type: 'array',
+      items: { $ref: '#/definitions/Rule' },
+    },
+    allowAmbiguousPermissions: {
+      description:
+        'Accept numeric permissions whose decimal digits look like an octal mode.',
+      type: 'boolean',
+    },
+    shebang: {
+      description:
+        'Make JavaScript assets starting with a shebang executable when no rule matches them.',
+      anyOf: [{ type: 'boolean' }, { $ref: '#/definitions/Permissions' }],
+    },
+    defaultPermissions: {
+      description: 'Mode for files that no rule matches.',
+      anyOf: [
+        { $ref: '#/definitions/Permissions' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          required: ['permissions'],
+          properties: {
+            permissions: { $ref: '#/definitions/Permissions' },
+            exclude: {
+              description: 'Files to leave unchanged.',
+              $ref: '#/definitions/Patterns',
+            },
+          },
+        },
+      ],
+    },
+    preferAssetInfo: {
+      description:
+        'Whether modes declared in asset info or magic comments take precedence over rules.',
+      type: 'boolean',
+    },
+    magicComments: {
+      description:
+        'Let modules declare the mode of their chunk files with a webpackPermissions comment.',
+      type: 'boolean',
+    },
+    matchStrategy: {
+      description:
+        'Which rule applies when several match: the first, the last, or all merged in order.',
+      enum: ['first', 'last', 'merge'],
+    },
+    directories: {
+      description: 'Rules for directories under output.path.',
+      type: 'array',
+      items: { $ref: '#/definitions/DirectoryRule' },
+    },
+    scan: {
+      description:
+        'Also apply the rules to files in output.path that webpack did not emit.',
+      anyOf: [{ type: 'boolean' }, { $ref: '#/definitions/ScanOptions' }],
+    },
+    incremental: {
+      description: 'Only process emitted assets on watch rebuilds.',
+      type: 'boolean',
+    },
+    dryRun: {
+      description: 'Log the planned modes instead of changing them.',
+      anyOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            report: {
+              description: 'File to write a JSON report to.',
+              type: 'string',
+              minLength: 1,
+            },
+          },
+        },
+      ],
+    },
+    manifest: {
+      description:
+        'Write a JSON manifest of the applied modes and optionally a restore script.',
+      anyOf: [
+        { type: 'boolean' },
+        { type: 'string', minLength: 1 },
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            filename: {
+              description: 'Manifest to write, relative to output.path.',
+              type: 'string',
+              minLength: 1,
+            },
+            script: {
+              description:
+                'Shell script that restores the modes, relative to output.path.',
+              anyOf: [{ type: 'boolean' }, { type: 'string', minLength: 1 }],
+            },
+          },
+        },
+      ],
+    },
+    archive: {
+      description:
+        'Pack files into a tar archive with their modes after setting them.',
+      anyOf: [
+        { type: 'string', minLength: 1 },
+        {
+          type: 'object',
+          additionalProperties: false,
+          required: ['filename'],
+          properties: {
+            filename: {
+              description:
+                'Archive to write, relative to output.path. Gzipped if it ends in .gz or .tgz.',
+              type: 'string',
+              minLength: 1,
+            },
+            patterns: {
+              description: 'Files to pack.',
+              $ref: '#/definitions/Patterns',
+            },
+            mtime: {
+              description: 'Modification time of every entry, in seconds.',
+              type: 'integer',
+              minimum: 0,
+            },
+          },
+        },
+      ],
+    },
+    verify: {
+      description: 'Read the mode of each file back after changing it.',
+      type: 'boolean',
+    },
+    concurrency: {
+      description: 'Maximum number of files processed at the same time.',
+      type: 'integer',
+      minimum: 1,
+    },
+    strict: {
+      description: 'Report failures as compilation errors.',
+      type: 'boolean',
+    },
+    severity: {
+      description: 'How problems are reported, per situation.',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        unsupportedFileSystem: { $ref: '#/definitions/Severity' },
+        failure: { $ref: '#/definitions/Severity' },
+        unmatchedRule: { $ref: '#/definitions/Severity' },
+      },
+    },
+  },
+  required: ['rules'],
+  additionalProperties: false,
+} satisfies Schema;
@@ -0,0 +1,106 @@
+import { createTar, type TarEntry } from './tar.js';
+
+const readString = (block: Buffer, offset: number, length: number) =>
+  block.toString('utf8', offset, offset + length).replace(/\0.*$/s, '');
+
+const readOctal = (block: Buffer, offset: number, length: number) =>
+  parseInt(readString(block, offset, length), 8);
+
+const readEntries = (archive: Buffer) => {
+  const entries = [];
+  let offset = 0;
+  while (offset < archive.length && archive[offset] !== 0) {
+    const header = archive.subarray(offset, offset + 512);
+    const size = readOctal(header, 124, 12);
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    entries.push({
+      name: prefix ? `${prefix}/${name}` : name,
+      type: readString(header, 156, 1),
+      mode: readOctal(header, 100, 8),
+      uid: readOctal(header, 108, 8),
+      gid: readOctal(header, 116, 8),
+      mtime: readOctal(header, 136, 12),
+      uname: readString(header, 265, 32),
+      gname: readString(header, 297, 32),
+      checksum: readOctal(header, 148, 8),
+      content: archive.toString('utf8', offset + 512, offset + 512 + size),
+    });
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return entries;
+};
+
+describe('createTar', () => {
+  const entries: TarEntry[] = [
+    {
+      name: 'bin/cli.js',
+      type: 'file',
+      mode: 0o100755,
+      mtime: 0,
+      uname: 'app',
+      gid: 33,
+      content: Buffer.from('#!/usr/bin/env node\n'),
+    },
+    { name: 'bin', type: 'directory', mode: 0o750, mtime: 0 },
+    { name: 'main.js', type: 'file', mode: 0o644, mtime: 0 },
+  ];
+
+  it('should record entries sorted by name with their modes and owners', () => {
+    expect(readEntries(createTar(entries))).toEqual([
+      expect.objectContaining({
+        name: 'bin/',
+        type: '5',
+        mode: 0o750,
+        uid: 0,
+        content: '',
+      }),
+      expect.objectContaining({
+        name: 'bin/cli.js',
+        type: '0',
+        mode: 0o755,
+        uid: 0,
+        gid: 33,
+        uname: 'app',
+        gname: '',
+        content: '#!/usr/bin/env node\n',
+      }),
+      expect.objectContaining({ name: 'main.js', mode: 0o644, content: '' }),
+    ]);
+  });
+
+  it('should be independent of the order of entries', () => {
+    expect(createTar([...entries].reverse())).toEqual(createTar(entries));
+  });
+
+  it('should pad the archive to whole blocks and end it with two empty blocks', () => {
+    const archive = createTar(entries);
+
+    expect(archive.length).toBe(512 * 6);
+    expect(archive.subarray(-1024).every((byte) => byte === 0)).toBe(true);
+  });
+
+  it('should write a valid header checksum', () => {
+    const header = Buffer.from(createTar(entries).subarray(0, 512));
+    const { checksum } = readEntries(header)[0];
+    header.fill(' ', 148, 156);
+
+    expect(checksum).toBe(header.reduce((sum, byte) => sum + byte, 0));
+  });
+
+  it('should split long paths into prefix and name', () => {
+    const name = `${'a'.repeat(120)}/${'b'.repeat(90)}.js`;
+
+    expect(
+      readEntries(createTar([{ name, type: 'file', mode: 0o644, mtime: 0 }]))
+    ).toEqual([expect.objectContaining({ name })]);
+  });
+
+  it('should throw for paths that do not fit in a ustar header', () => {
+    expect(() =>
+      createTar([
+        { name: 'a'.repeat(101), type: 'file', mode: 0o644, mtime: 0 },
+      ])
+    ).toThrow('Path is too long for a tar archive');
+  });
+});
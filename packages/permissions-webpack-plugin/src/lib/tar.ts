@@ -0,0 +1,112 @@
+export interface TarEntry {
+  /**
+   * Path inside the archive, using forward slashes.
+   */
+  name: string;
+  type: 'file' | 'directory';
+  mode: number;
+  /**
+   * Modification time in seconds since the epoch.
+   */
+  mtime: number;
+  uid?: number;
+  gid?: number;
+  uname?: string;
+  gname?: string;
+  content?: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+const writeString = (
+  header: Buffer,
+  value: string,
+  offset: number,
+  length: number
+) => {
+  if (Buffer.byteLength(value) > length) {
+    throw new Error(`"${value}" is too long for a tar header.`);
+  }
+  header.write(value, offset, length, 'utf8');
+};
+
+const writeOctal = (
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number
+) => {
+  const digits = value.toString(8);
+  if (digits.length > length - 1) {
+    throw new Error(`${value} is too large for a tar header.`);
+  }
+  header.write(
+    `${digits.padStart(length - 1, '0')}\0`,
+    offset,
+    length,
+    'ascii'
+  );
+};
+
+/**
+ * Splits a path into the `prefix` and `name` fields of a ustar header.
+ */
+const splitName = (name: string): [prefix: string, name: string] => {
+  if (Buffer.byteLength(name) <= 100) {
+    return ['', name];
+  }
+  for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+    const prefix = name.slice(0, i);
+    const rest = name.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) {
+      return [prefix, rest];
+    }
+  }
+  throw new Error(`Path is too long for a tar archive: ${name}`);
+};
+
+const createHeader = (entry: TarEntry, size: number): Buffer => {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const [prefix, name] = splitName(
+    entry.type === 'directory' ? `${entry.name}/` : entry.name
+  );
+  writeString(header, name, 0, 100);
+  writeOctal(header, entry.mode & 0o7777, 100, 8);
+  writeOctal(header, entry.uid ?? 0, 108, 8);
+  writeOctal(header, entry.gid ?? 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, entry.mtime, 136, 12);
+  header.fill(' ', 148, 156);
+  header.write(entry.type === 'directory' ? '5' : '0', 156, 'ascii');
+  header.write('ustar\u000000', 257, 'ascii');
+  writeString(header, entry.uname ?? '', 265, 32);
+  writeString(header, entry.gname ?? '', 297, 32);
+  writeString(header, prefix, 345, 155);
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+  return header;
+};
+
+/**
+ * Creates an uncompressed ustar archive. Entries are sorted by name, so the
+ * output only depends on the given entries and not on their order.
+ */
+export const createTar = (entries: TarEntry[]): Buffer => {
+  const blocks: Buffer[] = [];
+  const sorted = [...entries].sort((a, b) =>
+    a.name < b.name ? -1 : a.name > b.name ? 1 : 0
+  );
+  for (const entry of sorted) {
+    const content =
+      entry.type === 'file' ? (entry.content ?? Buffer.alloc(0)) : undefined;
+    blocks.push(createHeader(entry, content?.length ?? 0));
+    if (content && content.length > 0) {
+      blocks.push(content);
+      const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+};